@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { createCassette, decodeData, encodeData } from "./cassette.js";
+import { Gh } from "./github.js";
+
+const API = "https://api.github.com/repos/o/r";
+const ref = { owner: "o", repo: "r" };
+
+async function runRecordReplayTest(dir: string) {
+	const rec = createCassette("record", dir);
+	const log = Buffer.from("line 1\né\u0000binary\n", "utf8");
+	await rec.record(
+		{ method: "GET", url: `${API}/actions/jobs/7/logs` },
+		{ status: 200, headers: {}, ...encodeData(log) },
+	);
+	const runs = { method: "GET", url: `${API}/actions/runs?per_page=1` };
+	for (const status of ["queued", "in_progress", "completed"])
+		await rec.record(runs, { status: 200, headers: {}, data: { status } });
+	await rec.record(
+		{ method: "GET", url: `${API}/actions/jobs/8/logs` },
+		{
+			status: 403,
+			headers: {},
+			data: { message: "Must have admin rights" },
+			error: "Must have admin rights to Repository.",
+		},
+	);
+
+	// Another process replays what this one recorded
+	const tape = createCassette("replay", dir);
+	const first = await tape.replay({
+		method: "GET",
+		url: `${API}/actions/jobs/7/logs`,
+	});
+	assert.equal(first?.encoding, "base64");
+	assert.deepEqual(first && decodeData(first), log);
+	const seen: unknown[] = [];
+	for (let i = 0; i < 5; i++) seen.push((await tape.replay(runs))?.data);
+	assert.deepEqual(
+		seen.map((d) => (d as { status: string }).status),
+		["queued", "in_progress", "completed", "completed", "completed"],
+	);
+	assert.equal(
+		await tape.replay({ method: "GET", url: `${API}/pulls/1` }),
+		null,
+	);
+
+	// Through the client: binary logs decode, recorded errors rethrow
+	const gh = new Gh(undefined, { replay: dir });
+	assert.equal(await gh.fetchJobLog(ref, 7), log.toString("utf8"));
+	await assert.rejects(
+		gh.fetchJobLog(ref, 8),
+		(e: Error & { status?: number }) => {
+			assert.equal(e.status, 403);
+			assert.match(e.message, /admin rights/);
+			return true;
+		},
+	);
+	await assert.rejects(gh.fetchJobLog(ref, 9), /No recorded response/);
+}
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "awt-cassette-"));
+try {
+	await runRecordReplayTest(dir);
+} finally {
+	await fs.rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,124 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { ensureDir, hashString, writeFileAtomic } from "./util.js";
+
+/** What identifies a request on tape: never auth or conditional headers. */
+export interface TapeRequest {
+	method: string;
+	url: string;
+	body?: unknown;
+}
+
+export interface TapeResponse {
+	status: number;
+	headers: Record<string, string | number | undefined>;
+	// Binary payloads (job logs, artifact zips) are stored base64-encoded
+	data: unknown;
+	encoding?: "base64";
+	error?: string; // message of a failed request, rethrown on replay
+}
+
+interface TapeFile {
+	request: TapeRequest;
+	responses: TapeResponse[];
+}
+
+export interface Cassette {
+	mode: "record" | "replay";
+	dir: string;
+	/** Append a response; identical requests keep every answer in order. */
+	record(req: TapeRequest, res: TapeResponse): Promise<void>;
+	/** Next recorded answer for the request; the last one repeats once used up. */
+	replay(req: TapeRequest): Promise<TapeResponse | null>;
+}
+
+function fixtureName(req: TapeRequest): string {
+	const u = new URL(req.url);
+	const slug = `${req.method}${u.pathname}`
+		.replace(/[^A-Za-z0-9]+/g, "-")
+		.slice(0, 80);
+	const key = hashString(
+		`${req.method} ${u.pathname}${u.search} ${JSON.stringify(req.body ?? null)}`,
+	).slice(0, 10);
+	return `${slug}-${key}.json`;
+}
+
+export function encodeData(
+	data: unknown,
+): Pick<TapeResponse, "data" | "encoding"> {
+	if (Buffer.isBuffer(data))
+		return { data: data.toString("base64"), encoding: "base64" };
+	if (data instanceof ArrayBuffer)
+		return { data: Buffer.from(data).toString("base64"), encoding: "base64" };
+	if (ArrayBuffer.isView(data))
+		return {
+			data: Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString(
+				"base64",
+			),
+			encoding: "base64",
+		};
+	return { data };
+}
+
+export function decodeData(res: TapeResponse): unknown {
+	return res.encoding === "base64"
+		? Buffer.from(String(res.data), "base64")
+		: res.data;
+}
+
+/**
+ * Fixture files for `AWT_GH_RECORD` / `AWT_GH_REPLAY`: one JSON file per
+ * distinct request (method, URL, body) under `dir`, holding every response
+ * seen for it in order, so replayed polls see the same progression.
+ */
+export function createCassette(
+	mode: "record" | "replay",
+	dir: string,
+): Cassette {
+	const tapes = new Map<string, TapeFile>();
+	const served = new Map<string, number>();
+
+	async function load(file: string): Promise<TapeFile | null> {
+		const cached = tapes.get(file);
+		if (cached) return cached;
+		try {
+			const tape = JSON.parse(
+				await fs.readFile(path.join(dir, file), "utf8"),
+			) as TapeFile;
+			tapes.set(file, tape);
+			return tape;
+		} catch {
+			return null;
+		}
+	}
+
+	// Serialize writes so concurrent requests never drop each other's answers
+	let chain: Promise<void> = ensureDir(dir);
+
+	return {
+		mode,
+		dir,
+		record(req, res) {
+			const file = fixtureName(req);
+			chain = chain.then(async () => {
+				// A new recording session starts each fixture afresh
+				const tape = tapes.get(file) ?? { request: req, responses: [] };
+				tape.responses.push(res);
+				tapes.set(file, tape);
+				await writeFileAtomic(
+					path.join(dir, file),
+					`${JSON.stringify(tape, null, 2)}\n`,
+				);
+			});
+			return chain;
+		},
+		async replay(req) {
+			const file = fixtureName(req);
+			const tape = await load(file);
+			if (!tape?.responses.length) return null;
+			const i = served.get(file) ?? 0;
+			served.set(file, i + 1);
+			return tape.responses[Math.min(i, tape.responses.length - 1)] ?? null;
+		},
+	};
+}
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+
+import { ciVerdict, formatAnnotations } from "./ci.js";
+import type { Annotation, CiRun, ExternalCheck } from "./types.js";
+
+const run = (conclusion: string | null, status = "completed"): CiRun => ({
+	id: 1,
+	url: "",
+	status,
+	conclusion,
+	createdAt: null,
+	attempt: 1,
+	workflowId: null,
+});
+
+const check = (
+	conclusion: string | null,
+	kind: ExternalCheck["kind"] = "check_run",
+	status = "completed",
+): ExternalCheck => ({
+	kind,
+	name: `ext-${conclusion}`,
+	app: kind === "check_run" ? "ext" : null,
+	status,
+	conclusion,
+	detailsUrl: null,
+	summary: null,
+	text: null,
+});
+
+function runActionsOnlyTest() {
+	assert.equal(ciVerdict([], []), null);
+	assert.equal(ciVerdict([run("success"), run("success")], []), "success");
+	assert.equal(ciVerdict([run("success"), run(null, "in_progress")], []), null);
+	for (const failed of ["failure", "timed_out", "cancelled"])
+		assert.equal(ciVerdict([run("success"), run(failed)], []), "failure");
+	// A skipped workflow is not a pass
+	assert.equal(ciVerdict([run("success"), run("skipped")], []), "neutral");
+}
+
+function runExternalChecksTest() {
+	const green = [run("success")];
+	// Optional checks reporting neutral/skipped do not hold back green
+	assert.equal(
+		ciVerdict(green, [check("success", "status"), check("neutral")]),
+		"success",
+	);
+	assert.equal(ciVerdict(green, [check("skipped")]), "success");
+	// Waiting on someone is neither green nor red
+	assert.equal(
+		ciVerdict(green, [check("success"), check("action_required")]),
+		"neutral",
+	);
+	// Checks alone decide when there are no Actions runs
+	assert.equal(ciVerdict([], [check("success", "status")]), "success");
+	assert.equal(ciVerdict([], [check("failure", "status")]), "failure");
+	// Anything pending, run or check, keeps the verdict open
+	assert.equal(ciVerdict(green, [check(null, "status", "in_progress")]), null);
+	assert.equal(
+		ciVerdict([run(null, "queued")], [check("failure", "status")]),
+		null,
+	);
+	// One failure wins over neutral and action_required
+	assert.equal(
+		ciVerdict(green, [
+			check("neutral"),
+			check("action_required"),
+			check("failure", "status"),
+		]),
+		"failure",
+	);
+}
+
+function runAnnotationsTest() {
+	const ann = (over: Partial<Annotation>): Annotation => ({
+		jobId: 1,
+		jobName: "lint",
+		path: "src/a.ts",
+		startLine: 3,
+		endLine: 3,
+		level: "failure",
+		title: null,
+		message: "boom",
+		...over,
+	});
+	assert.equal(formatAnnotations([]), "");
+	assert.equal(
+		formatAnnotations([
+			ann({ title: "TS2322", message: "Type 'string' is not 'number'." }),
+			ann({
+				jobName: "test (node 20)",
+				path: "src/b.ts",
+				startLine: 10,
+				endLine: 14,
+				level: "warning",
+				message: "  first line\n\n   second line \n",
+			}),
+		]),
+		[
+			"- src/a.ts:3 [failure] TS2322: Type 'string' is not 'number'. (lint)",
+			"- src/b.ts:10-14 [warning] first line ⏎ second line (test (node 20))",
+		].join("\n"),
+	);
+}
+
+runActionsOnlyTest();
+runExternalChecksTest();
+runAnnotationsTest();
@@ -1,7 +1,58 @@
-import type { Gh } from "./github.js";
-import type { FailureBundle, RepoRef } from "./types.js";
+import type { EventLog } from "./events.js";
+import {
+	failureFingerprint,
+	setFingerprint,
+	textFingerprint,
+} from "./fingerprint.js";
+import type { ForgeProvider } from "./forge.js";
+import { normalizeLog } from "./normalize.js";
+import { scanLog } from "./parsers.js";
+import { isolateFailedSteps } from "./steps.js";
+import type {
+	Annotation,
+	CiRun,
+	ExternalCheck,
+	FailureBundle,
+	LogFilters,
+	LogParserRule,
+	RepoRef,
+} from "./types.js";
 import { truncateByKB } from "./util.js";
 
+const FAILURE_LIKE = new Set(["failure", "timed_out", "cancelled"]);
+// Optional external checks report neutral/skipped; they must not hold back green
+const PASSING_CHECK = new Set(["success", "neutral", "skipped"]);
+
+/**
+ * One verdict over a sha's runs and external checks: null while anything is
+ * pending, "failure" if anything failed, "success" only if all passed.
+ */
+export function ciVerdict(
+	runs: CiRun[],
+	checks: ExternalCheck[],
+): string | null {
+	const all = [...runs, ...checks];
+	if (!all.length || !all.every((r) => r.status === "completed")) return null;
+	if (all.some((r) => r.conclusion && FAILURE_LIKE.has(r.conclusion)))
+		return "failure";
+	return runs.every((r) => r.conclusion === "success") &&
+		checks.every((c) => PASSING_CHECK.has(c.conclusion ?? ""))
+		? "success"
+		: "neutral";
+}
+
+/**
+ * Runs built from `head`'s commits. In a base repo, fork PR runs share branch
+ * names with the base's own branches; runs without a known head repo stay.
+ */
+export function runsFromHead<T extends { headRepo?: string | null }>(
+	runs: T[],
+	head: RepoRef,
+): T[] {
+	const full = `${head.owner}/${head.repo}`.toLowerCase();
+	return runs.filter((r) => !r.headRepo || r.headRepo.toLowerCase() === full);
+}
+
 // Existing bundle-oriented helpers remain for watch-mode workflows.
 // The new gather flow constructs curated excerpts in report.ts based on runs since last push.
 
@@ -9,17 +60,28 @@ export async function gatherFailures(
 	ref: RepoRef,
 	pr: number,
 	sha: string,
-	gh: Gh,
+	gh: ForgeProvider,
 	perJobKB = 512,
 	totalMB = 5,
+	opts: {
+		logFilters?: LogFilters;
+		logParsers?: LogParserRule[];
+		log?: Pick<EventLog, "swallow">;
+	} = {},
 ): Promise<FailureBundle | null> {
-	const ci = await gh.latestCiForSha(ref, sha);
-	if (!ci.runs.length) return null;
+	const ci = await gh.latestCiForSha(ref, sha, { log: opts.log });
 	const failureLike = new Set(["failure", "timed_out", "cancelled"]);
+	const failedChecks = ci.checks.filter(
+		(c) => c.conclusion && failureLike.has(c.conclusion),
+	);
 	const anyFailed = ci.runs.some(
 		(r) => r.conclusion && failureLike.has(r.conclusion),
 	);
-	if (!anyFailed) return null;
+	if (!anyFailed && !failedChecks.length) return null;
+
+	// What was cut off by list caps, so the agent knows the picture is partial
+	const truncated: string[] = [];
+	if (ci.truncated) truncated.push(`workflow runs for ${sha.slice(0, 7)}`);
 
 	const jobsAll: {
 		id: number;
@@ -27,18 +89,16 @@ export async function gatherFailures(
 		name: string;
 		html_url: string;
 	}[] = [];
-	const logEntries: {
-		jobId: number;
-		runId: number;
-		jobName: string;
-		text: string;
-	}[] = [];
+	const logEntries: FailureBundle["logs"] = [];
+	const fingerprints = new Set<string>();
+	const annotations: Annotation[] = [];
 
 	for (const r of ci.runs.filter(
 		(r) => r.conclusion && failureLike.has(r.conclusion),
 	)) {
 		const jobs = await gh.listJobsForRun(ref, r.id);
-		for (const j of jobs.filter(
+		if (jobs.truncated) truncated.push(`jobs of run #${r.id}`);
+		for (const j of jobs.items.filter(
 			(j) => j.conclusion && failureLike.has(j.conclusion),
 		)) {
 			jobsAll.push({
@@ -47,16 +107,34 @@ export async function gatherFailures(
 				name: j.name,
 				html_url: j.html_url,
 			});
+			const ann = await gh
+				.listAnnotations(ref, j)
+				.catch(() => ({ items: [], truncated: false }));
+			if (ann.truncated) truncated.push(`annotations of job ${j.name}`);
+			annotations.push(...ann.items);
 			try {
-				const raw = await gh.fetchJobLog(ref, j.id);
-				const text = truncateByKB(raw, perJobKB);
-				logEntries.push({ jobId: j.id, runId: r.id, jobName: j.name, text });
+				const raw = normalizeLog(
+					await gh.fetchJobLog(ref, j.id),
+					opts.logFilters,
+				);
+				// Failed steps only; setup and passing steps would waste the prompt
+				const failed = isolateFailedSteps(raw, j.steps)?.text ?? raw;
+				const text = truncateByKB(failed, perJobKB);
+				const fp = jobFingerprint(failed, j.name, opts.logParsers);
+				for (const f of fp.failures) fingerprints.add(f);
+				logEntries.push({
+					jobId: j.id,
+					runId: r.id,
+					jobName: j.name,
+					text,
+					fingerprint: fp.job,
+				});
 			} catch (_e) {
 				logEntries.push({
 					jobId: j.id,
 					runId: r.id,
 					jobName: j.name,
-					text: `Unable to fetch job log. View online: https://github.com/${ref.owner}/${ref.repo}/runs/${j.id}`,
+					text: `Unable to fetch job log. View online: ${j.html_url || gh.webUrl(`${ref.owner}/${ref.repo}/runs/${j.id}`)}`,
 				});
 			}
 		}
@@ -68,7 +146,10 @@ export async function gatherFailures(
 	const capped: typeof logEntries = [];
 	for (const l of logEntries) {
 		const size = Buffer.byteLength(l.text, "utf8");
-		if (acc + size > totalLimitBytes) break;
+		if (acc + size > totalLimitBytes) {
+			truncated.push(`job logs beyond ${totalMB}MB`);
+			break;
+		}
 		capped.push(l);
 		acc += size;
 	}
@@ -80,20 +161,83 @@ export async function gatherFailures(
 			id: r.id,
 			url: r.url,
 			conclusion: r.conclusion,
+			workflowId: r.workflowId,
 		})),
 		jobs: jobsAll,
 		logs: capped,
+		...(fingerprints.size ? { fingerprints: [...fingerprints].sort() } : {}),
+		...(failedChecks.length ? { checks: failedChecks } : {}),
+		...(annotations.length ? { annotations } : {}),
+		...(truncated.length ? { truncated } : {}),
 	};
 }
 
+/**
+ * Fingerprints of a job log: its structured failures, or, when its parser
+ * finds none, its failure lines.
+ */
+function jobFingerprint(
+	log: string,
+	job: string,
+	rules?: LogParserRule[],
+): { job: string; failures: string[] } {
+	const scan = scanLog(log, { job, rules });
+	const failures = scan.failures.map(failureFingerprint);
+	if (failures.length) return { job: setFingerprint(failures), failures };
+	const hitLines = scan.hits.map((h) => scan.lines[h.index] ?? "").join("\n");
+	const fp = textFingerprint(hitLines || log);
+	return { job: fp, failures: [fp] };
+}
+
+const MAX_CHECK_CHARS = 4000; // per check; the summary leads, so keep the head
+
+/**
+ * Markdown for failed external checks: name, conclusion, link and their
+ * output summary/text, which is all GitHub has for them (no logs).
+ */
+export function formatExternalChecks(checks: ExternalCheck[]): string {
+	const out: string[] = [];
+	for (const c of checks) {
+		const from = c.app ? ` (${c.app})` : c.kind === "status" ? " (status)" : "";
+		out.push(
+			`- ${c.name}${from}: ${c.conclusion || c.status}${c.detailsUrl ? ` — ${c.detailsUrl}` : ""}`,
+		);
+		const body = [c.summary, c.text].filter(Boolean).join("\n\n");
+		if (body) {
+			out.push("<pre>");
+			out.push(
+				body.length > MAX_CHECK_CHARS
+					? `${body.slice(0, MAX_CHECK_CHARS)}\n… (truncated)`
+					: body,
+			);
+			out.push("</pre>");
+		}
+	}
+	return out.join("\n");
+}
+
 // Convenience: gather by SHA only (no PR). Returns bundle with prNumber=0 when failures exist.
 export async function gatherFailuresBySha(
 	ref: RepoRef,
 	sha: string,
-	gh: Gh,
+	gh: ForgeProvider,
 	perJobKB = 512,
 	totalMB = 5,
 ): Promise<FailureBundle | null> {
 	const b = await gatherFailures(ref, 0, sha, gh, perJobKB, totalMB);
 	return b;
 }
+
+/** One line per annotation: `path:line [level] title: message (job)`. */
+export function formatAnnotations(annotations: Annotation[]): string {
+	return annotations
+		.map((a) => {
+			const lines =
+				a.endLine > a.startLine
+					? `${a.startLine}-${a.endLine}`
+					: `${a.startLine}`;
+			const msg = a.message.trim().replace(/\s*\n\s*/g, " ⏎ ");
+			return `- ${a.path}:${lines} [${a.level}] ${a.title ? `${a.title}: ` : ""}${msg} (${a.jobName})`;
+		})
+		.join("\n");
+}
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+
+import { gatherComments } from "./comments.js";
+import type { ForgeProvider } from "./forge.js";
+import type { Target } from "./resolve.js";
+import type { ReviewCommentRest, ReviewThreadGql } from "./types.js";
+
+const TARGET: Target = {
+	repoRoot: "/r",
+	worktreePath: "/r",
+	owner: "o",
+	repo: "r",
+	head: { owner: "o", repo: "r" },
+	ci: { owner: "o", repo: "r" },
+	localBranch: "feat",
+	remoteBranch: "feat",
+	headSha: "abc",
+	prNumber: 7,
+	sinceIso: "2024-05-01T10:00:00Z",
+};
+
+type Node = ReviewThreadGql["comments"]["nodes"][number];
+const comment = (id: number, at: string, over: Partial<Node> = {}): Node => ({
+	databaseId: id,
+	url: `https://gh/pull/7#discussion_r${id}`,
+	body: `comment ${id}`,
+	createdAt: at,
+	updatedAt: null,
+	diffHunk: "@@ -1,3 +1,4 @@",
+	author: { login: "rev" },
+	commit: { oid: "abc" },
+	replyTo: null,
+	...over,
+});
+const thread = (
+	id: string,
+	nodes: Node[],
+	over: Partial<ReviewThreadGql> = {},
+): ReviewThreadGql => ({
+	id,
+	isResolved: false,
+	isOutdated: false,
+	path: "src/a.ts",
+	line: 12,
+	startLine: 10,
+	originalLine: 11,
+	diffSide: "RIGHT",
+	resolvedBy: null,
+	comments: { nodes },
+	...over,
+});
+
+const THREADS = [
+	thread("T1", [
+		comment(1, "2024-05-01T09:00:00Z"),
+		comment(2, "2024-05-01T11:00:00Z", { replyTo: { databaseId: 1 } }),
+	]),
+	thread("T2", [comment(3, "2024-05-01T11:30:00Z")], {
+		isOutdated: true,
+		line: null,
+		diffSide: "LEFT",
+	}),
+	thread("T3", [comment(4, "2024-05-01T12:00:00Z")], {
+		isResolved: true,
+		resolvedBy: { login: "dev" },
+	}),
+	// Nothing new since the push
+	thread("T4", [comment(5, "2024-05-01T08:00:00Z")]),
+];
+
+function fakeForge(
+	threads: ReviewThreadGql[] | Error,
+	reviewComments: ReviewCommentRest[] = [],
+) {
+	const calls: boolean[] = [];
+	const forge = {
+		listReviewThreads: async () => {
+			if (threads instanceof Error) throw threads;
+			return { items: threads, truncated: false };
+		},
+		listCommentsRest: async (
+			_ref: unknown,
+			_pr: number,
+			_since: string,
+			_cap: number,
+			_full: boolean,
+			includeReviewComments: boolean,
+		) => {
+			calls.push(includeReviewComments);
+			return {
+				issueComments: [],
+				reviewComments: includeReviewComments ? reviewComments : [],
+				reviews: [],
+				truncated: false,
+			};
+		},
+	} as unknown as ForgeProvider;
+	return { forge, calls };
+}
+
+const options = (gh: ForgeProvider) => ({
+	target: TARGET,
+	sinceIso: TARGET.sinceIso,
+	cap: 100,
+	fullThreads: true,
+	preferGraphQL: true,
+	gh,
+});
+
+async function runGraphQLTest() {
+	const { forge, calls } = fakeForge(THREADS);
+	const snap = await gatherComments(options(forge));
+	// REST review comments are skipped when GraphQL has the threads
+	assert.deepEqual(calls, [false]);
+	assert.equal(snap.resolvedHidden, 1);
+	assert.deepEqual(
+		snap.threads.map((t) => [t.threadId, t.isResolved, t.isOutdated]),
+		[
+			["T1", false, false],
+			["T2", false, true],
+		],
+	);
+	const [t1, t2] = snap.threads;
+	assert.deepEqual(
+		t1?.comments.map((c) => [c.id, c.parentId]),
+		[
+			["1", null],
+			["2", "1"],
+		],
+	);
+	assert.deepEqual(
+		[t1?.headCommit, t1?.diffHunk, t1?.comments[1]?.line?.startLine],
+		["abc", "@@ -1,3 +1,4 @@", 10],
+	);
+	assert.deepEqual(
+		[t2?.comments[0]?.line?.line, t2?.comments[0]?.line?.side],
+		[null, "LEFT"],
+	);
+
+	const all = await gatherComments({
+		...options(forge),
+		fullThreads: false,
+		includeResolved: true,
+	});
+	assert.equal(all.resolvedHidden, undefined);
+	const byId = new Map(all.threads.map((t) => [t.threadId, t]));
+	assert.equal(byId.get("T3")?.resolvedBy, "dev");
+	assert.deepEqual(
+		byId.get("T1")?.comments.map((c) => c.id),
+		["2"],
+	);
+}
+
+async function runRestFallbackTest() {
+	const rest: ReviewCommentRest = {
+		id: 9,
+		body: "fallback",
+		html_url: "https://gh/pull/7#discussion_r9",
+		created_at: "2024-05-01T11:00:00Z",
+		user: "rev",
+		path: "src/b.ts",
+		line: 3,
+		commit_id: "abc",
+	};
+	const { forge, calls } = fakeForge(new Error("graphql down"), [rest]);
+	const snap = await gatherComments(options(forge));
+	assert.deepEqual(calls, [true]);
+	// REST cannot tell resolution state
+	assert.deepEqual(
+		snap.threads.map((t) => [t.path, t.isResolved]),
+		[["src/b.ts", null]],
+	);
+}
+
+await runGraphQLTest();
+await runRestFallbackTest();
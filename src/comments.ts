@@ -1,10 +1,11 @@
-import type { Gh } from "./github.js";
+import type { ForgeProvider } from "./forge.js";
 import type { Target } from "./resolve.js";
 import type {
 	CommentItem,
 	CommentSnapshot,
 	CommentThread,
 	ReviewLineInfo,
+	ReviewThreadGql,
 } from "./types.js";
 
 export interface GatherCommentsOptions {
@@ -12,10 +13,11 @@ export interface GatherCommentsOptions {
 	sinceIso: string;
 	cap: number;
 	fullThreads: boolean;
-	preferGraphQL: boolean; // reserved for future GraphQL path; REST used today
+	preferGraphQL: boolean; // review threads via GraphQL (resolved/outdated state); REST fallback
+	includeResolved?: boolean; // keep resolved review threads (GraphQL path only)
 	authors?: string[];
 	states?: ("APPROVED" | "CHANGES_REQUESTED" | "COMMENTED")[];
-	gh: Gh;
+	gh: ForgeProvider;
 }
 
 export async function gatherComments(
@@ -23,14 +25,22 @@ export async function gatherComments(
 ): Promise<CommentSnapshot> {
 	const ref = { owner: opts.target.owner, repo: opts.target.repo };
 	const gh = opts.gh;
-	// Use REST path for now
-	const { issueComments, reviewComments, reviews } = await gh.listCommentsRest(
-		ref,
-		opts.target.prNumber!,
-		opts.sinceIso,
-		opts.cap * 2,
-		opts.fullThreads,
-	);
+	// GraphQL knows real thread membership and resolution; REST is the fallback
+	const gqlThreads = opts.preferGraphQL
+		? await gh
+				.listReviewThreads(ref, opts.target.prNumber ?? 0)
+				.catch(() => null)
+		: null;
+	const { issueComments, reviewComments, reviews, truncated } =
+		await gh.listCommentsRest(
+			ref,
+			opts.target.prNumber!,
+			opts.sinceIso,
+			opts.cap * 2,
+			opts.fullThreads,
+			!gqlThreads,
+		);
+	let dropped = truncated || !!gqlThreads?.truncated;
 
 	// Convert to unified items
 	const items: CommentItem[] = [];
@@ -88,6 +98,17 @@ export async function gatherComments(
 		byThread.get(threadId)?.comments.push(item);
 	}
 
+	let resolvedHidden = 0;
+	for (const t of gqlThreads?.items ?? []) {
+		const thread = fromGraphQLThread(t, opts.sinceIso, opts.fullThreads);
+		if (!thread) continue;
+		if (thread.isResolved && !opts.includeResolved) {
+			resolvedHidden += 1;
+			continue;
+		}
+		byThread.set(thread.threadId, thread);
+	}
+
 	// Review summaries (per-review, not per-line)
 	for (const r of reviews) {
 		items.push({
@@ -167,6 +188,7 @@ export async function gatherComments(
 			while (total > opts.cap && allThreads.length > 0) {
 				const drop = allThreads.shift()!;
 				total -= drop.comments.length;
+				dropped = true;
 			}
 		}
 	}
@@ -180,6 +202,57 @@ export async function gatherComments(
 		collectedAt,
 		totalCount,
 		threads: allThreads,
+		...(resolvedHidden ? { resolvedHidden } : {}),
+		...(dropped ? { truncated: true } : {}),
 	};
 	return snapshot;
 }
+
+/**
+ * Convert a GraphQL review thread; null when nothing in it is new since
+ * `sinceIso`. With fullThreads the earlier comments are kept for context.
+ */
+function fromGraphQLThread(
+	t: ReviewThreadGql,
+	sinceIso: string,
+	fullThreads: boolean,
+): CommentThread | null {
+	const nodes = t.comments.nodes;
+	if (!nodes.some((c) => c.createdAt >= sinceIso)) return null;
+	const kept = fullThreads
+		? nodes
+		: nodes.filter((c) => c.createdAt >= sinceIso);
+	const comments: CommentItem[] = kept.map((c) => {
+		const line: ReviewLineInfo = {
+			path: t.path,
+			startLine: t.startLine,
+			line: t.line,
+			side: t.diffSide,
+			originalLine: t.originalLine,
+			commitId: c.commit?.oid ?? null,
+			inReplyToId: c.replyTo?.databaseId ? String(c.replyTo.databaseId) : null,
+			threadId: t.id,
+		};
+		return {
+			id: String(c.databaseId ?? c.url),
+			url: c.url,
+			author: c.author?.login || "unknown",
+			body: c.body || "",
+			createdAt: c.createdAt,
+			updatedAt: c.updatedAt,
+			source: "review_line",
+			line,
+			parentId: line.inReplyToId,
+		};
+	});
+	return {
+		threadId: t.id,
+		path: t.path,
+		comments,
+		headCommit: nodes[0]?.commit?.oid ?? null,
+		isResolved: t.isResolved,
+		isOutdated: t.isOutdated,
+		resolvedBy: t.resolvedBy?.login ?? null,
+		diffHunk: nodes[0]?.diffHunk ?? null,
+	};
+}
@@ -0,0 +1,203 @@
+import { promises as fs, rmSync } from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { CacheStats } from "./etag-cache.js";
+import type { RateLimitState } from "./ratelimit.js";
+import { ensureDir, hashString, sanitizeName } from "./util.js";
+
+/** What a watcher reports about one worktree over its control socket. */
+export interface WatcherStatus {
+	worktree: string;
+	branch: string | null;
+	prNumber: number | null;
+	lastCiConclusion: string | null;
+	lastPasteAt: string | null;
+	lastError: string | null; // "<where>: <message>", swallowed errors included
+	lastErrorAt: string | null;
+}
+
+/** Reply to a `status` request: the process plus every worktree it watches. */
+export interface ControlInfo {
+	pid: number;
+	startedAt: string;
+	mode: "single" | "all";
+	cwd: string;
+	argv: string[]; // script + args, enough to re-launch the process
+	worktrees: WatcherStatus[];
+	ghCache?: CacheStats; // conditional-request savings of this process's Gh client
+	rateLimit?: RateLimitState; // REST quota as last seen by that client
+}
+
+export type ControlRequest =
+	| { cmd: "status" }
+	// worktree omitted → stop the whole process; a supervisor drops just that worktree
+	| { cmd: "stop"; worktree?: string }
+	// Poll now instead of waiting for the next tick (sent by `awt-ci serve`)
+	| { cmd: "poke"; worktree?: string; event?: string };
+
+export interface ControlHandlers {
+	status(): ControlInfo;
+	stop(worktree?: string): Promise<void>;
+	poke(worktree?: string, event?: string): void;
+}
+
+export function controlRunDir(): string {
+	return path.join(os.tmpdir(), "awt-ci", "run");
+}
+
+function socketPrefix(repoRoot: string): string {
+	return `${hashString(repoRoot).slice(0, 8)}-`;
+}
+
+/**
+ * Socket path for one watcher process. The pid keeps paths unique per process;
+ * the name is short because Unix socket paths are limited to ~104 bytes.
+ */
+export function controlSocketPath(repoRoot: string, name: string): string {
+	return path.join(
+		controlRunDir(),
+		`${socketPrefix(repoRoot)}${sanitizeName(name).slice(0, 40)}-${process.pid}.sock`,
+	);
+}
+
+export async function startControlServer(
+	sockPath: string,
+	handlers: ControlHandlers,
+): Promise<net.Server> {
+	await ensureDir(path.dirname(sockPath));
+	await fs.rm(sockPath, { force: true });
+	const server = net.createServer((conn) => {
+		let buf = "";
+		conn.on("data", (d) => {
+			buf += d.toString();
+			const nl = buf.indexOf("\n");
+			if (nl < 0) return;
+			const line = buf.slice(0, nl);
+			buf = "";
+			void respond(conn, line);
+		});
+		conn.on("error", () => {});
+	});
+
+	async function respond(conn: net.Socket, line: string) {
+		let req: ControlRequest;
+		try {
+			req = JSON.parse(line) as ControlRequest;
+		} catch {
+			conn.end(`${JSON.stringify({ ok: false, error: "bad request" })}\n`);
+			return;
+		}
+		if (req.cmd === "status") {
+			conn.end(`${JSON.stringify({ ok: true, info: handlers.status() })}\n`);
+		} else if (req.cmd === "stop") {
+			// Reply first: stopping the whole process ends it
+			conn.end(`${JSON.stringify({ ok: true })}\n`, () => {
+				void handlers.stop(req.worktree);
+			});
+		} else if (req.cmd === "poke") {
+			handlers.poke(req.worktree, req.event);
+			conn.end(`${JSON.stringify({ ok: true })}\n`);
+		} else {
+			conn.end(`${JSON.stringify({ ok: false, error: "unknown cmd" })}\n`);
+		}
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(sockPath, () => resolve());
+	});
+	const cleanup = () => {
+		try {
+			rmSync(sockPath, { force: true });
+		} catch {}
+	};
+	process.once("exit", cleanup);
+	for (const sig of ["SIGINT", "SIGTERM"] as const) {
+		process.once(sig, () => {
+			cleanup();
+			process.exit(0);
+		});
+	}
+	return server;
+}
+
+/** Send one request; resolves null when nothing answers (stale socket or timeout). */
+export async function sendControl<T = unknown>(
+	sockPath: string,
+	req: ControlRequest,
+	timeoutMs = 3000,
+): Promise<T | null> {
+	return new Promise((resolve) => {
+		const conn = net.createConnection(sockPath);
+		let buf = "";
+		const timer = setTimeout(() => {
+			conn.destroy();
+			resolve(null);
+		}, timeoutMs);
+		conn.on("connect", () => conn.write(`${JSON.stringify(req)}\n`));
+		conn.on("data", (d) => {
+			buf += d.toString();
+		});
+		conn.on("end", () => {
+			clearTimeout(timer);
+			try {
+				resolve(JSON.parse(buf.trim()) as T);
+			} catch {
+				resolve(null);
+			}
+		});
+		conn.on("error", () => {
+			clearTimeout(timer);
+			resolve(null);
+		});
+	});
+}
+
+function pidFromSocketName(name: string): number {
+	const m = name.match(/-(\d+)\.sock$/);
+	return m?.[1] ? Number(m[1]) : 0;
+}
+
+export function pidAlive(pid: number): boolean {
+	if (!pid) return false;
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (e) {
+		// EPERM: the process exists but belongs to someone else
+		return (e as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * Find live watcher sockets for a repo, removing stale ones left by watchers
+ * that died without cleaning up.
+ */
+export async function listControlSockets(
+	repoRoot: string,
+): Promise<{ sockPath: string; info: ControlInfo }[]> {
+	const dir = controlRunDir();
+	let names: string[];
+	try {
+		names = await fs.readdir(dir);
+	} catch {
+		return [];
+	}
+	const prefix = socketPrefix(repoRoot);
+	const out: { sockPath: string; info: ControlInfo }[] = [];
+	for (const name of names) {
+		if (!name.startsWith(prefix) || !name.endsWith(".sock")) continue;
+		const sockPath = path.join(dir, name);
+		const res = await sendControl<{ ok: boolean; info?: ControlInfo }>(
+			sockPath,
+			{ cmd: "status" },
+		);
+		if (res?.ok && res.info) {
+			out.push({ sockPath, info: res.info });
+		} else if (!pidAlive(pidFromSocketName(name))) {
+			await fs.rm(sockPath, { force: true }).catch(() => {});
+		}
+	}
+	return out;
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { createEtagCache } from "./etag-cache.js";
+
+const body = (n: number) => ({ etag: `"e${n}"`, data: { n } });
+
+async function runHitMissTest() {
+	const cache = createEtagCache();
+	await cache.ready;
+	assert.equal(cache.get("a"), undefined);
+	cache.set("a", body(1));
+	assert.equal(cache.get("a")?.etag, '"e1"');
+	cache.hit();
+	cache.miss();
+	cache.miss();
+	assert.deepEqual(cache.stats(), { hits: 1, misses: 2, entries: 1 });
+}
+
+async function runEvictionTest() {
+	const byCount = createEtagCache(undefined, { maxEntries: 2 });
+	byCount.set("a", body(1));
+	byCount.set("b", body(2));
+	// Reading "a" makes "b" the least recently used
+	byCount.get("a");
+	byCount.set("c", body(3));
+	assert.deepEqual(
+		["a", "b", "c"].map((k) => !!byCount.get(k)),
+		[true, false, true],
+	);
+
+	const big = { data: "x".repeat(1000) };
+	const byBytes = createEtagCache(undefined, { maxBytes: 2500 });
+	byBytes.set("a", big);
+	byBytes.set("b", big);
+	byBytes.set("c", big);
+	assert.deepEqual(
+		["a", "b", "c"].map((k) => !!byBytes.get(k)),
+		[false, true, true],
+	);
+}
+
+async function runPersistTest(dir: string) {
+	const first = createEtagCache(dir);
+	const second = createEtagCache(dir);
+	await Promise.all([first.ready, second.ready]);
+	first.set("a", body(1));
+	first.set("shared", body(1));
+	await first.flush();
+	// A second process saving later keeps the first one's entries
+	second.set("b", body(2));
+	second.set("shared", body(2));
+	await second.flush();
+
+	const reloaded = createEtagCache(dir);
+	await reloaded.ready;
+	assert.deepEqual(reloaded.get("a")?.data, { n: 1 });
+	assert.deepEqual(reloaded.get("b")?.data, { n: 2 });
+	assert.deepEqual(reloaded.get("shared")?.data, { n: 2 });
+	assert.deepEqual(
+		(await fs.readdir(dir)).filter((f) => f.endsWith(".tmp")),
+		[],
+	);
+
+	await fs.writeFile(path.join(dir, "github-etags.json"), "{not json");
+	const corrupt = createEtagCache(dir);
+	await corrupt.ready;
+	assert.equal(corrupt.stats().entries, 0);
+}
+
+await runHitMissTest();
+await runEvictionTest();
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "awt-etag-"));
+try {
+	await runPersistTest(dir);
+} finally {
+	await fs.rm(dir, { recursive: true, force: true });
+}
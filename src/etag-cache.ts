@@ -0,0 +1,155 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { ensureDir, writeFileAtomic } from "./util.js";
+
+const MAX_ENTRIES = 500;
+const MAX_ENTRY_BYTES = 512 * 1024;
+const MAX_TOTAL_BYTES = 32 * 1024 * 1024;
+const SAVE_DELAY_MS = 2000;
+
+export interface EtagEntry {
+	etag?: string;
+	lastModified?: string;
+	data: unknown;
+	link?: string; // pagination header, needed when a cached page is paginated
+	storedAt: number;
+}
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	entries: number;
+}
+
+export interface EtagCacheLimits {
+	maxEntries?: number;
+	maxBytes?: number; // serialized size of all entries together
+}
+
+export interface EtagCache {
+	get(key: string): EtagEntry | undefined;
+	set(key: string, entry: Omit<EtagEntry, "storedAt">): void;
+	hit(): void;
+	miss(): void;
+	stats(): CacheStats;
+	/** Resolves once the on-disk cache (if any) has been read. */
+	ready: Promise<void>;
+	/** Save now instead of after the debounce. */
+	flush(): Promise<void>;
+}
+
+async function readEntries(file: string): Promise<[string, EtagEntry][]> {
+	try {
+		return Object.entries(
+			JSON.parse(await fs.readFile(file, "utf8")) as Record<string, EtagEntry>,
+		);
+	} catch {
+		return []; // missing or corrupt cache: start empty
+	}
+}
+
+/**
+ * Conditional-request cache: bodies keyed by request URL with their ETag /
+ * Last-Modified validators, evicted least recently used first once over the
+ * entry or byte budget. With a dir it is loaded from and saved to
+ * `<dir>/github-etags.json` (debounced). Watchers of several worktrees share
+ * that file, so a save merges in what the others wrote since.
+ */
+export function createEtagCache(
+	dir?: string,
+	limits: EtagCacheLimits = {},
+): EtagCache {
+	const maxEntries = limits.maxEntries ?? MAX_ENTRIES;
+	const maxBytes = limits.maxBytes ?? MAX_TOTAL_BYTES;
+	// Map order is recency order: oldest first
+	const entries = new Map<string, EtagEntry>();
+	const sizes = new Map<string, number>();
+	let totalBytes = 0;
+	const file = dir ? path.join(dir, "github-etags.json") : null;
+	let hits = 0;
+	let misses = 0;
+	let saveTimer: NodeJS.Timeout | null = null;
+
+	function put(key: string, entry: EtagEntry) {
+		remove(key);
+		const size = JSON.stringify(entry).length;
+		entries.set(key, entry);
+		sizes.set(key, size);
+		totalBytes += size;
+	}
+
+	function remove(key: string) {
+		totalBytes -= sizes.get(key) ?? 0;
+		sizes.delete(key);
+		entries.delete(key);
+	}
+
+	function evict() {
+		while (entries.size > maxEntries || totalBytes > maxBytes) {
+			const oldest = entries.keys().next().value;
+			if (oldest === undefined) break;
+			remove(oldest);
+		}
+	}
+
+	const ready = (async () => {
+		if (!file) return;
+		for (const [k, v] of await readEntries(file)) put(k, v);
+		evict();
+	})();
+
+	async function save() {
+		if (!file) return;
+		// Entries only another process has are older than any of ours
+		const mine = Array.from(entries);
+		entries.clear();
+		sizes.clear();
+		totalBytes = 0;
+		for (const [k, v] of await readEntries(file)) put(k, v);
+		for (const [k, v] of mine) put(k, v);
+		evict();
+		await ensureDir(path.dirname(file));
+		await writeFileAtomic(file, JSON.stringify(Object.fromEntries(entries)));
+	}
+
+	function scheduleSave() {
+		if (!file || saveTimer) return;
+		saveTimer = setTimeout(() => {
+			saveTimer = null;
+			void save().catch(() => {});
+		}, SAVE_DELAY_MS);
+		// Never keep a one-shot command alive just to save the cache
+		saveTimer.unref();
+	}
+
+	return {
+		ready,
+		get: (key) => {
+			const entry = entries.get(key);
+			if (entry) {
+				// Re-insert so Map order tracks use for eviction
+				entries.delete(key);
+				entries.set(key, entry);
+			}
+			return entry;
+		},
+		set: (key, entry) => {
+			if (JSON.stringify(entry.data).length > MAX_ENTRY_BYTES) return;
+			put(key, { ...entry, storedAt: Date.now() });
+			evict();
+			scheduleSave();
+		},
+		hit: () => {
+			hits += 1;
+		},
+		miss: () => {
+			misses += 1;
+		},
+		stats: () => ({ hits, misses, entries: entries.size }),
+		flush: async () => {
+			if (saveTimer) clearTimeout(saveTimer);
+			saveTimer = null;
+			await save();
+		},
+	};
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { ensureDir, sanitizeName } from "./util.js";
+
+const MAX_LOG_BYTES = 10 * 1024 * 1024;
+
+export type WatchEventType =
+	| "start"
+	| "push"
+	| "pr"
+	| "ci"
+	| "rerun"
+	| "paste"
+	| "notify"
+	| "webhook"
+	| "throttle"
+	| "error";
+
+export interface WatchEvent {
+	ts: string;
+	wt: string;
+	type: WatchEventType;
+	[key: string]: unknown;
+}
+
+export interface EventLog {
+	emit(type: WatchEventType, data?: Record<string, unknown>): void;
+	/** Record an error the caller is about to swallow, with its stack. */
+	error(where: string, err: unknown): void;
+	/** `.catch(log.swallow("where", fallback))`: log the error, continue with fallback. */
+	swallow<T>(where: string, fallback: T): (err: unknown) => T;
+}
+
+export function eventLogPath(repoRoot: string, wt: string): string {
+	return path.join(repoRoot, ".awt", "logs", `${sanitizeName(wt)}.jsonl`);
+}
+
+/**
+ * Append-only JSONL event log for one worktree's watcher.
+ * Writes are serialized and never throw; the file rotates to `.1` past 10MB.
+ * `onError` sees every recorded error, swallowed ones included.
+ */
+export function createEventLog(
+	repoRoot: string,
+	wt: string,
+	onError?: (where: string, err: unknown) => void,
+): EventLog {
+	const file = eventLogPath(repoRoot, wt);
+	let chain: Promise<void> = (async () => {
+		await ensureDir(path.dirname(file));
+		const st = await fs.stat(file).catch(() => null);
+		if (st && st.size > MAX_LOG_BYTES) await fs.rename(file, `${file}.1`);
+	})().catch(() => {});
+
+	function emit(type: WatchEventType, data: Record<string, unknown> = {}) {
+		const ev: WatchEvent = { ts: new Date().toISOString(), wt, type, ...data };
+		const line = `${JSON.stringify(ev)}\n`;
+		chain = chain.then(() => fs.appendFile(file, line, "utf8")).catch(() => {});
+	}
+
+	function error(where: string, err: unknown) {
+		const e = err as { message?: string; stack?: string; status?: number };
+		onError?.(where, err);
+		emit("error", {
+			where,
+			message: String(e?.message ?? err),
+			status: e?.status,
+			stack: e?.stack,
+		});
+	}
+
+	return {
+		emit,
+		error,
+		swallow:
+			<T>(where: string, fallback: T) =>
+			(err: unknown): T => {
+				error(where, err);
+				return fallback;
+			},
+	};
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+
+import {
+	dedupeLogs,
+	failureDelta,
+	failureFingerprint,
+	groupJobs,
+	maskVolatile,
+} from "./fingerprint.js";
+import { toRunExtract } from "./report.js";
+import type { JobBrief, RunBrief, TestFailure } from "./types.js";
+
+function failure(name: string, message: string): TestFailure {
+	return {
+		name,
+		classname: null,
+		file: null,
+		kind: "failure",
+		message,
+		trace: null,
+		source: "log:pytest",
+	};
+}
+
+function runMaskTest() {
+	assert.equal(
+		maskVolatile(
+			"KeyError at 0x7f3a2c10 in /home/runner/work/r/r/src/app.py:42 after 1.53s",
+		),
+		"KeyError at <addr> in …/app.py:<n> after <n>s",
+	);
+	// Names keep embedded digits, parameter ids and relative paths
+	assert.equal(
+		maskVolatile("tests/unit/test_2.py::TestParse2"),
+		"tests/unit/test_2.py::TestParse2",
+	);
+	assert.equal(
+		maskVolatile("FAILED t.py::test_add[1-2-3] - took 2s [ 50%]"),
+		"FAILED t.py::test_add[1-2-3] - took <n>s [ <n>%]",
+	);
+	assert.equal(
+		failureFingerprint(failure("t", "took 12ms at /tmp/a1/x.py")),
+		failureFingerprint(failure("t", "took 340ms at /var/b/x.py")),
+	);
+	assert.notEqual(
+		failureFingerprint(failure("t", "expected 1")),
+		failureFingerprint(failure("u", "expected 1")),
+	);
+	// Parametrized cases are different tests, not copies of one
+	assert.notEqual(
+		failureFingerprint(failure("test_add[1-2-3]", "assert 3 == 4")),
+		failureFingerprint(failure("test_add[4-5-9]", "assert 9 == 10")),
+	);
+}
+
+const LOG = (py: string) =>
+	[
+		"============================= test session starts ==============================",
+		`platform linux -- Python ${py}, pytest-8.0.0`,
+		"=========================== short test summary info ============================",
+		`FAILED tests/test_a.py::test_x - AssertionError: /opt/py/${py}/lib/x.py`,
+	].join("\n");
+
+function runGroupTest() {
+	const run: RunBrief = {
+		id: 9,
+		url: "",
+		status: "completed",
+		conclusion: "failure",
+		createdAt: null,
+		name: "CI",
+	};
+	const job = (id: number, name: string): JobBrief => ({
+		id,
+		runId: 9,
+		name,
+		html_url: "",
+		conclusion: "failure",
+	});
+	const rx = toRunExtract(
+		run,
+		[job(1, "test (3.11)"), job(2, "test (3.12)"), job(3, "lint")],
+		{ 1: LOG("3.11.9"), 2: LOG("3.12.4"), 3: "ERROR ruff found 2 errors" },
+	);
+	const groups = [...groupJobs([rx]).values()].map((g) =>
+		g.map((r) => r.jobId),
+	);
+	assert.deepEqual(groups, [[1, 2], [3]]);
+}
+
+function runDedupeLogsTest() {
+	const logs = dedupeLogs([
+		{ jobId: 1, runId: 9, jobName: "a", text: "x", fingerprint: "f1" },
+		{ jobId: 2, runId: 9, jobName: "b", text: "x", fingerprint: "f1" },
+		{ jobId: 3, runId: 9, jobName: "c", text: "y", fingerprint: "f2" },
+		{ jobId: 4, runId: 9, jobName: "d", text: "z" },
+	]);
+	assert.deepEqual(
+		logs.map((l) => l.jobName),
+		["a (same failures in: b (run #9))", "c", "d"],
+	);
+}
+
+function runDeltaTest() {
+	const prev = { sha: "aaaaaaa1", fingerprints: ["f1", "f2"] };
+	assert.equal(failureDelta(undefined, "b", ["f1"]), null);
+	assert.equal(failureDelta(prev, "aaaaaaa1", ["f1"]), null);
+	assert.deepEqual(failureDelta(prev, "b", ["f2", "f3"]), {
+		previousSha: "aaaaaaa1",
+		added: 1,
+		fixed: 1,
+	});
+}
+
+runMaskTest();
+runGroupTest();
+runDedupeLogsTest();
+runDeltaTest();
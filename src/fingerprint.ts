@@ -0,0 +1,171 @@
+import type {
+	FailureBundle,
+	JobExtract,
+	RunExtract,
+	TestFailure,
+} from "./types.js";
+import { hashString } from "./util.js";
+
+const MAX_MESSAGE_CHARS = 500; // of a failure message, when fingerprinting
+// A bracketed parameter id right after a name, as in pytest's `test_x[a-1]`
+const RE_PARAM_ID = /(\w\[[^\]\s]*\])/;
+
+/**
+ * Blank out what differs between copies of one failure message across
+ * matrix jobs and re-runs: addresses, ids, directories of absolute paths and
+ * numbers (durations, line numbers, versions). Digits inside names
+ * (`TestParse2`, `test_1`), parameter ids (`test_add[1-2-3]`) and relative
+ * paths stay, since they tell tests apart.
+ */
+export function maskVolatile(s: string): string {
+	const masked = s
+		.replace(/\b0x[0-9a-f]+\b/gi, "<addr>")
+		.replace(
+			/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+			"<uuid>",
+		)
+		.replace(/\b[0-9a-f]{12,}\b/gi, "<hex>")
+		.replace(
+			/(?<![\w.])(?:[A-Za-z]:)?[\\/](?:[\w.@+-]+[\\/])+([\w.@+-]+)/g,
+			"…/$1",
+		);
+	// Odd parts of the split are parameter ids, whose numbers stay
+	return masked
+		.split(RE_PARAM_ID)
+		.map((part, i) => (i % 2 ? part : part.replace(/\b\d+(?:\.\d+)*/g, "<n>")))
+		.join("")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function digest(s: string): string {
+	return hashString(s).slice(0, 12);
+}
+
+/**
+ * Same test failing the same way, wherever it ran. Only the message is
+ * masked: test ids stay whole, so parametrized cases (`test_add[1-2-3]`)
+ * remain distinct.
+ */
+export function failureFingerprint(t: TestFailure): string {
+	const id = `${t.classname ? `${t.classname}.` : ""}${t.name}`;
+	const msg = (t.message ?? "").slice(0, MAX_MESSAGE_CHARS);
+	return digest(`${id.trim()}\n${maskVolatile(msg)}`);
+}
+
+/** For logs without structured failures: their masked text. */
+export function textFingerprint(text: string): string {
+	return digest(maskVolatile(text));
+}
+
+/** One fingerprint for a job's whole failure set. */
+export function setFingerprint(fingerprints: string[]): string {
+	return digest([...new Set(fingerprints)].sort().join("\n"));
+}
+
+export interface JobRef {
+	runId: number;
+	jobId: number;
+	jobName: string;
+}
+
+/**
+ * Jobs of all runs grouped by their failure-set fingerprint, in report
+ * order; the first job of each group is the one shown in full.
+ */
+export function groupJobs(runExtracts: RunExtract[]): Map<string, JobRef[]> {
+	const groups = new Map<string, JobRef[]>();
+	for (const rx of runExtracts)
+		for (const jx of rx.jobs) {
+			if (!jx.fingerprint) continue;
+			const ref = { runId: rx.run.id, jobId: jx.job.id, jobName: jx.job.name };
+			const g = groups.get(jx.fingerprint);
+			if (g) g.push(ref);
+			else groups.set(jx.fingerprint, [ref]);
+		}
+	return groups;
+}
+
+/** Jobs each failure (by fingerprint) occurred in, across all runs. */
+export function failureJobs(runExtracts: RunExtract[]): Map<string, JobRef[]> {
+	const out = new Map<string, JobRef[]>();
+	for (const rx of runExtracts)
+		for (const jx of rx.jobs)
+			for (const fp of jobFailureFingerprints(jx)) {
+				const ref = {
+					runId: rx.run.id,
+					jobId: jx.job.id,
+					jobName: jx.job.name,
+				};
+				const g = out.get(fp);
+				if (g) g.push(ref);
+				else out.set(fp, [ref]);
+			}
+	return out;
+}
+
+function jobFailureFingerprints(jx: JobExtract): string[] {
+	const fps = (jx.failures ?? []).flatMap((f) =>
+		f.fingerprint ? [f.fingerprint] : [],
+	);
+	return fps.length ? fps : jx.fingerprint ? [jx.fingerprint] : [];
+}
+
+export function formatJobRefs(refs: JobRef[]): string {
+	return refs.map((r) => `${r.jobName} (run #${r.runId})`).join(", ");
+}
+
+/**
+ * Bundle logs with repeated failure sets dropped; the log kept for each set
+ * names the other jobs in its `jobName`.
+ */
+export function dedupeLogs(logs: FailureBundle["logs"]): FailureBundle["logs"] {
+	const seen = new Map<string, { jobName: string; also: string[] }>();
+	const out: FailureBundle["logs"] = [];
+	for (const l of logs) {
+		const g = l.fingerprint ? seen.get(l.fingerprint) : undefined;
+		if (g) {
+			g.also.push(`${l.jobName} (run #${l.runId})`);
+			continue;
+		}
+		const entry = { ...l };
+		out.push(entry);
+		if (l.fingerprint)
+			seen.set(l.fingerprint, { jobName: l.jobName, also: [] });
+	}
+	for (const l of out) {
+		const g = l.fingerprint ? seen.get(l.fingerprint) : undefined;
+		if (g?.also.length)
+			l.jobName = `${g.jobName} (same failures in: ${g.also.join(", ")})`;
+	}
+	return out;
+}
+
+/** How this push's failures compare to the previous push's. */
+export interface FailureDelta {
+	previousSha: string;
+	added: number;
+	fixed: number;
+}
+
+export function failureDelta(
+	previous: { sha: string; fingerprints: string[] } | undefined,
+	sha: string,
+	fingerprints: string[],
+): FailureDelta | null {
+	if (!previous || previous.sha === sha) return null;
+	const before = new Set(previous.fingerprints);
+	const now = new Set(fingerprints);
+	return {
+		previousSha: previous.sha,
+		added: [...now].filter((f) => !before.has(f)).length,
+		fixed: [...before].filter((f) => !now.has(f)).length,
+	};
+}
+
+export function formatFailureDelta(d: FailureDelta): string {
+	const prev = d.previousSha.slice(0, 7);
+	if (!d.added && !d.fixed)
+		return `Same failures as the previous push (${prev}).`;
+	return `Compared to the previous push (${prev}): ${d.added} new, ${d.fixed} fixed.`;
+}
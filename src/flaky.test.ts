@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+
+import {
+	DEFAULT_FLAKE_PATTERNS,
+	matchFlakes,
+	NETWORK_FLAKE_PATTERNS,
+} from "./flaky.js";
+import type { FailureBundle } from "./types.js";
+
+function bundle(...texts: string[]): FailureBundle {
+	return {
+		sha: "abc",
+		prNumber: 1,
+		runs: [{ id: 1, url: "", conclusion: "failure" }],
+		jobs: texts.map((_, i) => ({
+			id: i + 1,
+			runId: 1,
+			name: `job ${i + 1}`,
+			html_url: "",
+		})),
+		logs: texts.map((text, i) => ({
+			jobId: i + 1,
+			runId: 1,
+			jobName: `job ${i + 1}`,
+			text,
+		})),
+	};
+}
+
+const SHUTDOWN =
+	"2024-05-01T10:00:00.000Z ##[error]The runner has received a shutdown signal.";
+const CANCELED =
+	"2024-05-01T10:00:00.000Z ##[error]The operation was canceled.";
+const REFUSED_ASSERT = [
+	"FAIL src/client.test.ts > retries a refused connection",
+	"AssertionError: expected 'connect ECONNREFUSED 127.0.0.1:5432' to equal 'ok'",
+].join("\n");
+const NPM_RESET = "npm ERR! code ECONNRESET\nnpm ERR! network socket hang up";
+
+function runDefaultTest() {
+	assert.deepEqual(matchFlakes(bundle(SHUTDOWN)), [
+		"The runner has received a shutdown signal",
+	]);
+	assert.equal(matchFlakes(bundle(CANCELED))?.length, 1);
+	// A test that merely prints "canceled" is not a runner cancellation
+	assert.equal(matchFlakes(bundle("Error: The operation was canceled")), null);
+	// Every failed job has to be a flake
+	assert.equal(matchFlakes(bundle(SHUTDOWN, "expected 1 to be 2")), null);
+}
+
+function runNetworkTest() {
+	// Network errors in test output are real failures by default...
+	assert.equal(matchFlakes(bundle(REFUSED_ASSERT)), null);
+	assert.equal(matchFlakes(bundle(NPM_RESET)), null);
+	// ...and flakes only when opted in
+	const withNetwork = [...DEFAULT_FLAKE_PATTERNS, ...NETWORK_FLAKE_PATTERNS];
+	assert.deepEqual(matchFlakes(bundle(NPM_RESET), withNetwork), ["ECONNRESET"]);
+	assert.equal(
+		matchFlakes(bundle("Error: 503 Service Unavailable"), withNetwork)?.length,
+		1,
+	);
+}
+
+function runUnvettedTest() {
+	const b = bundle(SHUTDOWN);
+	assert.equal(matchFlakes({ ...b, logs: [] }), null);
+	// A job whose log was dropped by the size cap
+	assert.equal(
+		matchFlakes({
+			...b,
+			jobs: [...b.jobs, { id: 9, runId: 1, name: "big", html_url: "" }],
+		}),
+		null,
+	);
+	assert.equal(
+		matchFlakes({
+			...b,
+			checks: [
+				{
+					kind: "status",
+					name: "ci/ext",
+					app: null,
+					status: "completed",
+					conclusion: "failure",
+					detailsUrl: null,
+					summary: null,
+					text: null,
+				},
+			],
+		}),
+		null,
+	);
+}
+
+runDefaultTest();
+runNetworkTest();
+runUnvettedTest();
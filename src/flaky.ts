@@ -0,0 +1,62 @@
+import type { FailureBundle } from "./types.js";
+
+// Runner and infra failures that say nothing about the code under test
+export const DEFAULT_FLAKE_PATTERNS = [
+	"The runner has received a shutdown signal",
+	"lost communication with the server",
+	"The hosted runner encountered an error",
+	"##\\[error\\]The operation was canceled",
+	"No space left on device",
+];
+
+// Network errors; tests print these too (e.g. an assertion about a refused
+// connection), so they only count as flakes when opted in
+export const NETWORK_FLAKE_PATTERNS = [
+	"ETIMEDOUT",
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"EAI_AGAIN",
+	"socket hang up",
+	"Could not resolve host",
+	"TLS handshake timeout",
+	"\\b(502 Bad Gateway|503 Service Unavailable|504 Gateway Time-?out)\\b",
+	"toomanyrequests|rate limit exceeded",
+];
+
+function compile(patterns: string[]): RegExp[] {
+	const out: RegExp[] = [];
+	for (const p of patterns) {
+		try {
+			out.push(new RegExp(p, "i"));
+		} catch {
+			// skip invalid user regex
+		}
+	}
+	return out;
+}
+
+/**
+ * Decide whether a failure bundle looks like an infra flake: every failed
+ * job's log must match at least one pattern. Returns the matched patterns,
+ * or null when any job failed for a reason that is not a known flake.
+ */
+export function matchFlakes(
+	bundle: FailureBundle,
+	patterns: string[] = DEFAULT_FLAKE_PATTERNS,
+): string[] | null {
+	// Logs dropped by the size cap cannot be vetted, nor can external checks
+	if (
+		!bundle.logs.length ||
+		bundle.logs.length < bundle.jobs.length ||
+		bundle.checks?.length
+	)
+		return null;
+	const res = compile(patterns);
+	const matched = new Set<string>();
+	for (const l of bundle.logs) {
+		const hit = res.find((re) => re.test(l.text));
+		if (!hit) return null;
+		matched.add(hit.source);
+	}
+	return Array.from(matched);
+}
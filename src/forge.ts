@@ -0,0 +1,153 @@
+import type { CacheStats } from "./etag-cache.js";
+import type { EventLog } from "./events.js";
+import type { RepoLayout } from "./git.js";
+import { Gh } from "./github.js";
+import { GitLab } from "./gitlab.js";
+import { type ForgeHost, resolveForgeHost } from "./host.js";
+import type { RateLimitState } from "./ratelimit.js";
+import type {
+	Annotation,
+	CiJob,
+	CiStatus,
+	ExternalCheck,
+	Paged,
+	PrCommentItem,
+	PrFile,
+	PrLite,
+	RepoRef,
+	RestComments,
+	ReviewThreadGql,
+	RunArtifact,
+	WatchConfig,
+	WorkflowRun,
+} from "./types.js";
+import { getGhToken, getGitLabToken } from "./util.js";
+
+export interface CiLookupOptions {
+	cap?: number;
+	/** Where lookups the verdict can do without are logged when they fail. */
+	log?: Pick<EventLog, "swallow">;
+}
+
+/**
+ * What awt-ci needs from a code host and its CI: PRs (GitLab merge
+ * requests), runs (GitLab pipelines) and their jobs, logs and discussions.
+ * Repos are addressed as `owner/repo`; on GitLab `owner` is the namespace
+ * path, subgroups included.
+ */
+export interface ForgeProvider {
+	readonly kind: ForgeHost["kind"];
+	readonly host: ForgeHost;
+	/** Web link on the forge's host, e.g. `webUrl("o/r/pull/1")`. */
+	webUrl(pathname: string): string;
+	/** Conditional-request hit/miss counters. */
+	cacheStats(): CacheStats;
+	/** Quota as of the last response; the watcher paces its polls on it. */
+	rateLimit(): RateLimitState;
+
+	/** Open PR from `branch` of the `head` repo (a fork or `ref` itself). */
+	findOpenPrForBranch(
+		ref: RepoRef,
+		head: RepoRef,
+		branch: string,
+	): Promise<number | null>;
+	findPrBySha(ref: RepoRef, sha: string): Promise<number | null>;
+	/** Head, base and mergeability of a PR. */
+	getPrLite(ref: RepoRef, pr: number): Promise<PrLite>;
+	prFiles(ref: RepoRef, pr: number, cap?: number): Promise<Paged<PrFile>>;
+
+	listCommentsSince(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string,
+		cap?: number,
+	): Promise<Paged<PrCommentItem>>;
+	listCommentsRecent(
+		ref: RepoRef,
+		pr: number,
+		cap?: number,
+	): Promise<Paged<PrCommentItem>>;
+	listCommentsRest(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string,
+		cap?: number,
+		fullThreads?: boolean,
+		includeReviewComments?: boolean,
+	): Promise<RestComments>;
+	/** Review threads with resolution state; throws when unsupported. */
+	listReviewThreads(
+		ref: RepoRef,
+		pr: number,
+		maxThreads?: number,
+	): Promise<Paged<ReviewThreadGql>>;
+
+	latestCiForSha(
+		ref: RepoRef,
+		sha: string,
+		opts?: CiLookupOptions,
+	): Promise<CiStatus>;
+	listExternalChecks(
+		ref: RepoRef,
+		sha: string,
+		cap?: number,
+	): Promise<Paged<ExternalCheck>>;
+	listWorkflowRunsSince(
+		ref: RepoRef,
+		branch: string | null,
+		sinceIso: string,
+		cap?: number,
+		workflowId?: number,
+	): Promise<Paged<WorkflowRun>>;
+	listJobsForRun(
+		ref: RepoRef,
+		runId: number,
+		cap?: number,
+	): Promise<Paged<CiJob>>;
+	fetchJobLog(ref: RepoRef, jobId: number): Promise<string>;
+	rerunFailedJobs(ref: RepoRef, runId: number): Promise<void>;
+	listAnnotations(
+		ref: RepoRef,
+		job: { id: number; name: string },
+		cap?: number,
+	): Promise<Paged<Annotation>>;
+	listRunArtifacts(
+		ref: RepoRef,
+		runId: number,
+		cap?: number,
+	): Promise<Paged<RunArtifact>>;
+	downloadArtifact(ref: RepoRef, artifactId: number): Promise<Buffer>;
+
+	getBranchSha(ref: RepoRef, branch: string): Promise<string | null>;
+	getCommitDate(ref: RepoRef, sha: string): Promise<string | null>;
+	defaultBranch(ref: RepoRef): Promise<string | null>;
+	branchesForCommit(ref: RepoRef, sha: string): Promise<string[] | null>;
+}
+
+/**
+ * Repo whose CI builds a PR's head commits. GitHub runs fork PRs' workflows
+ * in the base repo; GitLab runs fork MR pipelines in the fork by default.
+ */
+export function ciRepo(forge: ForgeProvider, layout: RepoLayout): RepoRef {
+	return forge.kind === "gitlab" ? layout.head : layout.base;
+}
+
+export interface ForgeOptions {
+	/** Persist the conditional-request cache here (e.g. `.awt/cache`). */
+	cacheDir?: string;
+}
+
+/** Client for the forge hosting the repo at `cwd` (see `resolveForgeHost`). */
+export async function createForge(
+	cfg: WatchConfig,
+	cwd: string,
+	opts: ForgeOptions = {},
+): Promise<ForgeProvider> {
+	const host = await resolveForgeHost(cfg, cwd);
+	if (host.kind === "gitlab") {
+		const token = await getGitLabToken(host.host);
+		return new GitLab(token || undefined, { host });
+	}
+	const token = await getGhToken(host.host);
+	return new Gh(token || undefined, { ...opts, host });
+}
@@ -1,6 +1,10 @@
 import * as path from "node:path";
+import { formatAnnotations, runsFromHead } from "./ci.js";
+import { formatJobRefs, groupJobs } from "./fingerprint.js";
+import { createForge } from "./forge.js";
 import { repoRoot } from "./git.js";
-import { Gh } from "./github.js";
+import { analyzeFailureHistory } from "./history.js";
+import { fetchJUnitFailures, formatTestFailures } from "./junit.js";
 import {
 	buildMarkdownXmlReport,
 	buildReportFilename,
@@ -9,6 +13,7 @@ import {
 import { resolveTarget } from "./resolve.js";
 import { summarizeErrorExcerptText } from "./summarize.js";
 import type {
+	Annotation,
 	Engine,
 	GatherFlags,
 	JobBrief,
@@ -18,7 +23,6 @@ import type {
 } from "./types.js";
 import {
 	ensureDir,
-	getGhToken,
 	homePathDisplay,
 	nowStampUTC,
 	pathExists,
@@ -44,8 +48,7 @@ export async function runGatherCi(args: GatherCiArgs) {
 	const cfg = (await readJsonc<WatchConfig>(cfgPath)) || {};
 	const engine = cfg.engine || args.engine;
 
-	const ghToken = await getGhToken();
-	const gh = new Gh(ghToken || undefined);
+	const gh = await createForge(cfg, root);
 
 	const target = await resolveTarget({
 		explicitWt: args.wt || null,
@@ -64,14 +67,18 @@ export async function runGatherCi(args: GatherCiArgs) {
 	);
 
 	// Fetch runs since last push
+	// Runs live where CI builds the head commits (the base repo for GitHub forks)
 	const runsSince = await gh.listWorkflowRunsSince(
-		{ owner: target.owner, repo: target.repo },
+		target.ci,
 		target.remoteBranch!,
 		target.sinceIso,
 	);
 	const failureLike = new Set(["failure", "timed_out", "cancelled"]);
-	const inProgress = runsSince.filter((r) => r.status !== "completed");
-	const completedFailing = runsSince.filter(
+	// Lists cut off by caps; the report says so
+	const truncated: string[] = runsSince.truncated ? ["workflow runs"] : [];
+	const runs = runsFromHead(runsSince.items, target.head);
+	const inProgress = runs.filter((r) => r.status !== "completed");
+	const completedFailing = runs.filter(
 		(r) =>
 			r.status === "completed" && r.conclusion && failureLike.has(r.conclusion),
 	);
@@ -91,13 +98,14 @@ export async function runGatherCi(args: GatherCiArgs) {
 	// Build run extracts (completed failing first, then forced in-progress)
 	const runExtracts: RunExtract[] = [];
 	const includedRunIds: number[] = [];
+	// Full failing-job logs, for looking the failing tests up in run history
+	const rawLogs: { runId: number; text: string }[] = [];
+	const annotations: Annotation[] = [];
 
 	async function fetchRunExtract(run: RunBrief): Promise<RunExtract | null> {
-		const jobs = await gh.listJobsForRun(
-			{ owner: target.owner, repo: target.repo },
-			run.id,
-		);
-		const failingJobs: JobBrief[] = jobs
+		const jobs = await gh.listJobsForRun(target.ci, run.id);
+		if (jobs.truncated) truncated.push(`jobs of run #${run.id}`);
+		const failingJobs: JobBrief[] = jobs.items
 			.filter(
 				(j) =>
 					(j.conclusion && failureLike.has(j.conclusion)) ||
@@ -113,6 +121,7 @@ export async function runGatherCi(args: GatherCiArgs) {
 				html_url: j.html_url,
 				conclusion: j.conclusion,
 				status: j.status ?? null,
+				...(j.steps ? { steps: j.steps } : {}),
 			}));
 
 		if (!failingJobs.length && run.status !== "completed") {
@@ -128,17 +137,32 @@ export async function runGatherCi(args: GatherCiArgs) {
 
 		const jobLogs: Record<number, string> = {};
 		for (const j of failingJobs) {
+			const ann = await gh
+				.listAnnotations(target.ci, j)
+				.catch(() => ({ items: [], truncated: false }));
+			if (ann.truncated) truncated.push(`annotations of job ${j.name}`);
+			annotations.push(...ann.items);
 			try {
-				const raw = await gh.fetchJobLog(
-					{ owner: target.owner, repo: target.repo },
-					j.id,
-				);
+				const raw = await gh.fetchJobLog(target.ci, j.id);
 				jobLogs[j.id] = raw;
+				rawLogs.push({ runId: run.id, text: raw });
 			} catch {
 				jobLogs[j.id] = "(unable to fetch logs for this job; open in browser)";
 			}
 		}
-		return toRunExtract(run, failingJobs, jobLogs);
+		// Exact failures from JUnit artifacts; the log scan stays the fallback
+		const junit = await fetchJUnitFailures(gh, target.ci, run.id).catch(() => ({
+			tests: null,
+			dir: null,
+			truncated: false,
+		}));
+		if (junit.truncated) truncated.push(`test results of run #${run.id}`);
+		return toRunExtract(run, failingJobs, jobLogs, {
+			junit: junit.tests ? { tests: junit.tests, dir: junit.dir } : undefined,
+			logParsers: cfg.logParsers,
+			logFilters: cfg.logFilters,
+			logContext: cfg.logContext,
+		});
 	}
 
 	for (const r of completedFailing) {
@@ -158,13 +182,63 @@ export async function runGatherCi(args: GatherCiArgs) {
 		}
 	}
 
-	// Curated excerpt text for summarization
+	const failureHistory = await analyzeFailureHistory(gh, target.ci, {
+		branch: target.remoteBranch ?? "",
+		runs: runExtracts.map((rx) => rx.run),
+		logs: rawLogs,
+		maxRuns: cfg.failureHistory?.maxRuns,
+		lookbackDays: cfg.failureHistory?.lookbackDays,
+	}).catch(() => []);
+
+	// Non-Actions checks on the head commit: output and link, no logs
+	const externalChecks = await gh
+		.listExternalChecks(target.ci, target.headSha)
+		.then((r) => {
+			if (r.truncated) truncated.push("external checks");
+			return r.items.filter(
+				(c) => c.conclusion && failureLike.has(c.conclusion),
+			);
+		})
+		.catch(() => []);
+
+	// Curated excerpt text for summarization (matrix copies of a failure once)
+	const jobGroups = groupJobs(runExtracts);
 	const curatedExcerpt = runExtracts
-		.flatMap((rx) =>
-			rx.jobs.map((jx) =>
-				[
-					`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — JOB ${jx.job.name} =====`,
+		.flatMap((rx) => [
+			...(rx.tests?.length
+				? [
+						`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — TEST RESULTS (junit) =====\n${formatTestFailures(rx.tests)}`,
+					]
+				: []),
+			...rx.jobs.flatMap((jx) => {
+				const group = jx.fingerprint
+					? (jobGroups.get(jx.fingerprint) ?? [])
+					: [];
+				if (group[0] && group[0].jobId !== jx.job.id) return [];
+				const also =
+					group.length > 1
+						? ` (same failures in: ${formatJobRefs(group.slice(1))})`
+						: "";
+				return [
+					`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — JOB ${jx.job.name}${also} =====`,
 					jx.excerpt,
+					...(jx.failures?.length && !rx.tests?.length
+						? [
+								`----- FAILURES (${jx.parser}) -----`,
+								formatTestFailures(jx.failures),
+							]
+						: []),
+				].join("\n");
+			}),
+		])
+		.concat(
+			annotations.length
+				? [`===== ANNOTATIONS =====\n${formatAnnotations(annotations)}`]
+				: [],
+			externalChecks.map((c) =>
+				[
+					`===== CHECK ${c.name} — ${c.conclusion} — ${c.detailsUrl ?? ""} =====`,
+					[c.summary, c.text].filter(Boolean).join("\n\n"),
 				].join("\n"),
 			),
 		)
@@ -201,6 +275,10 @@ export async function runGatherCi(args: GatherCiArgs) {
 		prNumber: target.prNumber,
 		commentsSince: [], // CI-only mode
 		runExtracts,
+		failureHistory,
+		externalChecks,
+		annotations,
+		truncated,
 		ghAstGrepForRun: (runId: number) =>
 			[
 				`sg -p "/\\\\b(ERROR|FAILED|XFAIL)\\\\b/" <(gh run view ${runId} --log) || true`,
@@ -1,14 +1,13 @@
 import * as path from "node:path";
 import { gatherComments } from "./comments.js";
+import { createForge } from "./forge.js";
 import { repoRoot } from "./git.js";
-import { Gh } from "./github.js";
 import { buildCommentReport } from "./report.comments.js";
 import { buildReportFilename } from "./report.js";
 import { resolveTarget } from "./resolve.js";
 import type { WatchConfig } from "./types.js";
 import {
 	ensureDir,
-	getGhToken,
 	homePathDisplay,
 	nowStampUTC,
 	pathExists,
@@ -23,6 +22,7 @@ export interface GatherCommentsArgs {
 	since?: string; // "auto" | ISO string
 	max?: number; // cap total comments across threads
 	fullThreads?: boolean; // include parents before since
+	includeResolved?: boolean; // keep resolved review threads
 	format?: "md" | "json" | "both";
 	out?: string;
 	authors?: string[];
@@ -34,8 +34,7 @@ export async function runGatherComments(args: GatherCommentsArgs) {
 	const cfgPath = path.join(root, ".awt", "config.jsonc");
 	const cfg = (await readJsonc<WatchConfig>(cfgPath)) || {};
 
-	const ghToken = await getGhToken();
-	const gh = new Gh(ghToken || undefined);
+	const gh = await createForge(cfg, root);
 
 	const target = await resolveTarget({
 		explicitWt: args.wt || null,
@@ -54,6 +53,7 @@ export async function runGatherComments(args: GatherCommentsArgs) {
 		cap: args.max ?? cfg.commentsCap ?? 500,
 		fullThreads: args.fullThreads ?? true,
 		preferGraphQL: cfg.preferGraphQL ?? true,
+		includeResolved: args.includeResolved,
 		authors: args.authors,
 		states: args.states,
 		gh,
@@ -2,14 +2,18 @@
 
 import { promises as fs } from "node:fs";
 import * as path from "node:path";
+import { formatAnnotations, runsFromHead } from "./ci.js";
+import { formatJobRefs, groupJobs } from "./fingerprint.js";
+import { ciRepo, createForge } from "./forge.js";
 import {
 	currentBranch,
-	originOwnerRepo,
 	remoteHeadSha,
+	repoLayout,
 	repoRoot,
 	repoRootForWorktree,
 } from "./git.js";
-import { Gh } from "./github.js";
+import { analyzeFailureHistory } from "./history.js";
+import { fetchJUnitFailures, formatTestFailures } from "./junit.js";
 import {
 	buildMarkdownXmlReport,
 	buildReportFilename,
@@ -17,6 +21,7 @@ import {
 } from "./report.js";
 import { summarizeErrorExcerptText } from "./summarize.js";
 import type {
+	Annotation,
 	Engine,
 	GatherFlags,
 	JobBrief,
@@ -28,7 +33,6 @@ import {
 	type ansi,
 	color,
 	ensureDir,
-	getGhToken,
 	homePathDisplay,
 	nowStampUTC,
 	pathExists,
@@ -80,15 +84,15 @@ export async function gather(opts: {
 		"Please analyze the failures above and continue working to resolve them.",
 	);
 
-	const ghToken = await getGhToken();
-	const gh = new Gh(ghToken || undefined);
+	const gh = await createForge(cfg, ctxPath);
 
-	// Determine owner/repo from origin
-	const ownerRepo =
-		cfg.owner && cfg.repo
-			? { owner: cfg.owner, repo: cfg.repo }
-			: await originOwnerRepo(ctxPath).catch(async () => originOwnerRepo(root));
-	const { owner, repo } = ownerRepo;
+	// Base repo for the PR; the branch lives on origin, which may be a fork
+	const layout = await repoLayout(ctxPath, cfg).catch(async () =>
+		repoLayout(root, cfg),
+	);
+	const { owner, repo } = layout.base;
+	const head = layout.head;
+	const ci = ciRepo(gh, layout);
 
 	// Resolve target branch (remote-only)
 	const localBranch = wtExists
@@ -111,7 +115,7 @@ export async function gather(opts: {
 		)) || null;
 	if (!sha) {
 		// GitHub API fallback confirms remote existence
-		sha = await gh.getBranchSha({ owner, repo }, targetBranch);
+		sha = await gh.getBranchSha(head, targetBranch);
 	}
 	if (!sha) {
 		process.stderr.write(
@@ -123,12 +127,12 @@ export async function gather(opts: {
 
 	// Last push time = commit date of remote HEAD
 	const sinceIso: string =
-		(await gh.getCommitDate({ owner, repo }, sha)) ||
+		(await gh.getCommitDate(head, sha)) ||
 		new Date(Date.now() - 24 * 3600 * 1000).toISOString();
 
 	// PR number and comments since last push
 	const prNumber: number | null = await gh
-		.findOpenPrForBranch({ owner, repo }, owner, targetBranch)
+		.findOpenPrForBranch({ owner, repo }, head, targetBranch)
 		.catch(() => null);
 
 	let commentsSince: {
@@ -138,34 +142,36 @@ export async function gather(opts: {
 		url: string;
 	}[] = [];
 	let totalRecentComments = 0;
+	// Lists cut off by caps; the report says so
+	const truncated: string[] = [];
 	if (prNumber) {
 		try {
-			commentsSince = await gh.listCommentsSince(
+			const since = await gh.listCommentsSince(
 				{ owner, repo },
 				prNumber,
 				sinceIso,
 				cfg.maxRecentComments ?? 30,
 			);
+			commentsSince = since.items;
+			if (since.truncated) truncated.push("PR comments");
 			const recentAll = await gh.listCommentsRecent(
 				{ owner, repo },
 				prNumber,
 				100,
 			);
-			totalRecentComments = recentAll.length;
+			totalRecentComments = recentAll.items.length;
 		} catch {
 			commentsSince = [];
 		}
 	}
 
 	// Workflow runs since last push
-	const runsSince = await gh.listWorkflowRunsSince(
-		{ owner, repo },
-		targetBranch,
-		sinceIso,
-	);
+	const runsSince = await gh.listWorkflowRunsSince(ci, targetBranch, sinceIso);
 	const failureLike = new Set(["failure", "timed_out", "cancelled"]);
-	const inProgress = runsSince.filter((r) => r.status !== "completed");
-	const completedFailing = runsSince.filter(
+	if (runsSince.truncated) truncated.push("workflow runs");
+	const runs = runsFromHead(runsSince.items, head);
+	const inProgress = runs.filter((r) => r.status !== "completed");
+	const completedFailing = runs.filter(
 		(r) =>
 			r.status === "completed" && r.conclusion && failureLike.has(r.conclusion),
 	);
@@ -184,10 +190,14 @@ export async function gather(opts: {
 	// Build run extracts (completed failing first, then forced in-progress)
 	const runExtracts: RunExtract[] = [];
 	const includedRunIds: number[] = [];
+	// Full failing-job logs, for looking the failing tests up in run history
+	const rawLogs: { runId: number; text: string }[] = [];
+	const annotations: Annotation[] = [];
 
 	async function fetchRunExtract(run: RunBrief): Promise<RunExtract | null> {
-		const jobs = await gh.listJobsForRun({ owner, repo }, run.id);
-		const failingJobs: JobBrief[] = jobs
+		const jobs = await gh.listJobsForRun(ci, run.id);
+		if (jobs.truncated) truncated.push(`jobs of run #${run.id}`);
+		const failingJobs: JobBrief[] = jobs.items
 			.filter(
 				(j) =>
 					(j.conclusion && failureLike.has(j.conclusion)) ||
@@ -203,6 +213,7 @@ export async function gather(opts: {
 				html_url: j.html_url,
 				conclusion: j.conclusion,
 				status: j.status ?? null,
+				...(j.steps ? { steps: j.steps } : {}),
 			}));
 
 		if (!failingJobs.length && run.status !== "completed") {
@@ -218,14 +229,32 @@ export async function gather(opts: {
 
 		const jobLogs: Record<number, string> = {};
 		for (const j of failingJobs) {
+			const ann = await gh
+				.listAnnotations(ci, j)
+				.catch(() => ({ items: [], truncated: false }));
+			if (ann.truncated) truncated.push(`annotations of job ${j.name}`);
+			annotations.push(...ann.items);
 			try {
-				const raw = await gh.fetchJobLog({ owner, repo }, j.id);
+				const raw = await gh.fetchJobLog(ci, j.id);
 				jobLogs[j.id] = raw;
+				rawLogs.push({ runId: run.id, text: raw });
 			} catch {
 				jobLogs[j.id] = "(unable to fetch logs for this job; open in browser)";
 			}
 		}
-		return toRunExtract(run, failingJobs, jobLogs);
+		// Exact failures from JUnit artifacts; the log scan stays the fallback
+		const junit = await fetchJUnitFailures(gh, ci, run.id).catch(() => ({
+			tests: null,
+			dir: null,
+			truncated: false,
+		}));
+		if (junit.truncated) truncated.push(`test results of run #${run.id}`);
+		return toRunExtract(run, failingJobs, jobLogs, {
+			junit: junit.tests ? { tests: junit.tests, dir: junit.dir } : undefined,
+			logParsers: cfg.logParsers,
+			logFilters: cfg.logFilters,
+			logContext: cfg.logContext,
+		});
 	}
 
 	for (const r of completedFailing) {
@@ -245,13 +274,63 @@ export async function gather(opts: {
 		}
 	}
 
-	// Curated excerpt for model summarization
+	const failureHistory = await analyzeFailureHistory(gh, ci, {
+		branch: targetBranch,
+		runs: runExtracts.map((rx) => rx.run),
+		logs: rawLogs,
+		maxRuns: cfg.failureHistory?.maxRuns,
+		lookbackDays: cfg.failureHistory?.lookbackDays,
+	}).catch(() => []);
+
+	// Non-Actions checks on the head commit: output and link, no logs
+	const externalChecks = await gh
+		.listExternalChecks(ci, sha)
+		.then((r) => {
+			if (r.truncated) truncated.push("external checks");
+			return r.items.filter(
+				(c) => c.conclusion && failureLike.has(c.conclusion),
+			);
+		})
+		.catch(() => []);
+
+	// Curated excerpt for model summarization (matrix copies of a failure once)
+	const jobGroups = groupJobs(runExtracts);
 	const curatedExcerpt = runExtracts
-		.flatMap((rx) =>
-			rx.jobs.map((jx) =>
-				[
-					`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — JOB ${jx.job.name} =====`,
+		.flatMap((rx) => [
+			...(rx.tests?.length
+				? [
+						`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — TEST RESULTS (junit) =====\n${formatTestFailures(rx.tests)}`,
+					]
+				: []),
+			...rx.jobs.flatMap((jx) => {
+				const group = jx.fingerprint
+					? (jobGroups.get(jx.fingerprint) ?? [])
+					: [];
+				if (group[0] && group[0].jobId !== jx.job.id) return [];
+				const also =
+					group.length > 1
+						? ` (same failures in: ${formatJobRefs(group.slice(1))})`
+						: "";
+				return [
+					`===== RUN ${rx.run.id} — ${rx.run.name ?? "Workflow"} — JOB ${jx.job.name}${also} =====`,
 					jx.excerpt,
+					...(jx.failures?.length && !rx.tests?.length
+						? [
+								`----- FAILURES (${jx.parser}) -----`,
+								formatTestFailures(jx.failures),
+							]
+						: []),
+				].join("\n");
+			}),
+		])
+		.concat(
+			annotations.length
+				? [`===== ANNOTATIONS =====\n${formatAnnotations(annotations)}`]
+				: [],
+			externalChecks.map((c) =>
+				[
+					`===== CHECK ${c.name} — ${c.conclusion} — ${c.detailsUrl ?? ""} =====`,
+					[c.summary, c.text].filter(Boolean).join("\n\n"),
 				].join("\n"),
 			),
 		)
@@ -288,6 +367,10 @@ export async function gather(opts: {
 		prNumber,
 		commentsSince,
 		runExtracts,
+		failureHistory,
+		externalChecks,
+		annotations,
+		truncated,
 		ghAstGrepForRun: (runId: number) =>
 			[
 				`sg -p "/\\\\b(ERROR|FAILED|XFAIL)\\\\b/" <(gh run view ${runId} --log) || true`,
@@ -1,5 +1,7 @@
+import { type Dirent, promises as fs } from "node:fs";
 import * as path from "node:path";
-import { exec } from "./util.js";
+import type { ConflictFile, RepoRef } from "./types.js";
+import { exec, pathExists } from "./util.js";
 
 export async function repoRoot(): Promise<string> {
 	const { stdout, code } = await exec("git", ["rev-parse", "--show-toplevel"]);
@@ -12,6 +14,25 @@ export function repoRootForWorktree(repoBase: string, wtName: string): string {
 	return path.join(home, ".worktrees", repoBase, wtName);
 }
 
+/**
+ * List worktree names under ~/.worktrees/<repo>/ (directories that are git checkouts).
+ */
+export async function listWorktrees(repoBase: string): Promise<string[]> {
+	const dir = path.dirname(repoRootForWorktree(repoBase, "_"));
+	let entries: Dirent[];
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+	const names: string[] = [];
+	for (const e of entries) {
+		if (!e.isDirectory()) continue;
+		if (await pathExists(path.join(dir, e.name, ".git"))) names.push(e.name);
+	}
+	return names.sort();
+}
+
 export async function currentBranch(wtPath: string): Promise<string> {
 	// Try robust detection first
 	const r0 = await exec("git", ["-C", wtPath, "branch", "--show-current"]);
@@ -33,22 +54,117 @@ export async function headSha(wtPath: string): Promise<string> {
 	return r.stdout.trim();
 }
 
-export async function originOwnerRepo(
+/**
+ * Host, owner and repo of a GitHub or GitLab remote URL: scp-style SSH
+ * (`git@host:owner/repo.git`), `ssh://` and `https://` forms. On GitLab
+ * `owner` is the whole namespace (`group/subgroup`).
+ */
+export function parseRemoteUrl(
+	url: string,
+): { host: string; owner: string; repo: string } | null {
+	const m =
+		url.match(/^(?:https?|git):\/\/(?:[^@/]+@)?([^/]+)\/(.+)$/) ??
+		// ssh:// ports are for ssh only, not part of the web/API host
+		url.match(/^ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/) ??
+		url.match(/^(?:[^@/]+@)?([^/:]+):(?!\/\/)(.+)$/);
+	if (!m?.[1] || !m[2]) return null;
+	const parts = m[2]
+		.replace(/\/+$/, "")
+		.replace(/\.git$/, "")
+		.split("/")
+		.filter(Boolean);
+	const repo = parts.pop();
+	// GitLab namespaces may nest: group/subgroup/project
+	const owner = parts.join("/");
+	if (!owner || !repo) return null;
+	return { host: m[1].toLowerCase(), owner, repo };
+}
+
+export async function remoteOwnerRepo(
 	wtPath: string,
-): Promise<{ owner: string; repo: string }> {
+	remote: string,
+): Promise<{ owner: string; repo: string; host: string }> {
 	const { stdout } = await exec("git", [
 		"-C",
 		wtPath,
 		"remote",
 		"get-url",
-		"origin",
+		remote,
 	]);
 	const url = stdout.trim();
-	// SSH: git@github.com:owner/repo.git
-	const m = url.match(/github\.com[:/]([^/]+)\/([^/.]+)(?:\.git)?$/);
-	if (!m || !m[1] || !m[2])
-		throw new Error(`Could not parse origin URL: ${url}`);
-	return { owner: m[1], repo: m[2] };
+	const parsed = parseRemoteUrl(url);
+	if (!parsed) throw new Error(`Could not parse ${remote} URL: ${url}`);
+	return parsed;
+}
+
+export function originOwnerRepo(
+	wtPath: string,
+): Promise<{ owner: string; repo: string; host: string }> {
+	return remoteOwnerRepo(wtPath, "origin");
+}
+
+/** Where PRs live (`base`) versus where branches are pushed (`head`). */
+export interface RepoLayout {
+	base: RepoRef;
+	head: RepoRef;
+	fork: boolean; // head is a fork of base
+	baseRemote: string; // remote the base branch is fetched from: the one pointing at base
+}
+
+/** The remote whose URL points at `target`: upstream, then origin, then any. */
+async function remoteFor(
+	wtPath: string,
+	target: RepoRef,
+): Promise<string | null> {
+	const { stdout, code } = await exec("git", ["-C", wtPath, "remote"]);
+	if (code !== 0) return null;
+	const names = stdout.split("\n").filter(Boolean);
+	const preferred = ["upstream", "origin"].filter((n) => names.includes(n));
+	const want = `${target.owner}/${target.repo}`.toLowerCase();
+	for (const name of [
+		...preferred,
+		...names.filter((n) => !preferred.includes(n)),
+	]) {
+		const r = await remoteOwnerRepo(wtPath, name).catch(() => null);
+		if (r && `${r.owner}/${r.repo}`.toLowerCase() === want) return name;
+	}
+	return null;
+}
+
+/**
+ * Base and head repo of a checkout. Branches are pushed to origin; PRs go to
+ * the configured owner/repo, else to the `upstream` remote when there is one
+ * (the usual fork setup), else to origin itself.
+ */
+export async function repoLayout(
+	wtPath: string,
+	configured?: Partial<RepoRef> | null,
+): Promise<RepoLayout> {
+	const pinned =
+		configured?.owner && configured.repo
+			? { owner: configured.owner, repo: configured.repo }
+			: null;
+	const head = await originOwnerRepo(wtPath).then(
+		(o) => ({ owner: o.owner, repo: o.repo }),
+		(e) => {
+			if (pinned) return pinned;
+			throw e;
+		},
+	);
+	const base =
+		pinned ??
+		(await remoteOwnerRepo(wtPath, "upstream").then(
+			(u) => ({ owner: u.owner, repo: u.repo }),
+			() => head,
+		));
+	const fork =
+		`${base.owner}/${base.repo}`.toLowerCase() !==
+		`${head.owner}/${head.repo}`.toLowerCase();
+	// A pinned base may have no remote of its own; origin is the best guess then
+	const baseRemote = fork
+		? ((await remoteFor(wtPath, base)) ?? "origin")
+		: "origin";
+	return { base, head, fork, baseRemote };
 }
 
 export async function remoteHeadSha(
@@ -66,3 +182,77 @@ export async function remoteHeadSha(
 	if (code !== 0 || !stdout.trim()) return null;
 	return stdout.split(/\s+/)[0] || null;
 }
+
+const MAX_CONFLICT_FILES = 10;
+const MAX_HUNKS_PER_FILE = 2;
+const MAX_HUNK_LINES = 24;
+
+function conflictHunks(text: string): string {
+	const hunks: string[] = [];
+	let cur: string[] | null = null;
+	for (const ln of text.split(/\r?\n/)) {
+		if (ln.startsWith("<<<<<<< ")) cur = [];
+		if (!cur) continue;
+		cur.push(ln);
+		if (ln.startsWith(">>>>>>> ")) {
+			if (cur.length > MAX_HUNK_LINES) {
+				const half = Math.floor(MAX_HUNK_LINES / 2);
+				cur = [
+					...cur.slice(0, half),
+					`… [${cur.length - MAX_HUNK_LINES} lines]`,
+					...cur.slice(-half),
+				];
+			}
+			hunks.push(cur.join("\n"));
+			cur = null;
+			if (hunks.length >= MAX_HUNKS_PER_FILE) break;
+		}
+	}
+	return hunks.join("\n\n");
+}
+
+/**
+ * Dry-run merge of `headSha` into <remote>/<baseRef> with `git merge-tree`
+ * (git >= 2.38); nothing in the worktree is touched. `remote` holds the PR's
+ * base branch (`layout.baseRemote`). Returns the conflicting paths with a
+ * short excerpt of their conflict hunks, [] for a clean merge, or null when
+ * the merge could not be computed.
+ */
+export async function mergeTreeConflicts(
+	wtPath: string,
+	baseRef: string,
+	headSha: string,
+	remote = "origin",
+): Promise<ConflictFile[] | null> {
+	await exec("git", ["-C", wtPath, "fetch", "--quiet", remote, baseRef]);
+	const r = await exec("git", [
+		"-C",
+		wtPath,
+		"merge-tree",
+		"--write-tree",
+		"--name-only",
+		"--no-messages",
+		`${remote}/${baseRef}`,
+		headSha,
+	]);
+	if (r.code === 0) return [];
+	// Exit 1 means conflicts; anything else is an error (old git, unknown ref)
+	if (r.code !== 1) return null;
+	const [tree, ...rest] = r.stdout.split("\n").map((l) => l.trim());
+	if (!tree) return null;
+	const paths = Array.from(new Set(rest.filter(Boolean)));
+	const out: ConflictFile[] = [];
+	for (const p of paths.slice(0, MAX_CONFLICT_FILES)) {
+		const blob = await exec("git", [
+			"-C",
+			wtPath,
+			"cat-file",
+			"-p",
+			`${tree}:${p}`,
+		]);
+		const excerpt = blob.code === 0 ? conflictHunks(blob.stdout) : "";
+		out.push({ path: p, excerpt: excerpt || undefined });
+	}
+	for (const p of paths.slice(MAX_CONFLICT_FILES)) out.push({ path: p });
+	return out;
+}
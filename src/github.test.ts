@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { createCassette } from "./cassette.js";
+import { Gh } from "./github.js";
+
+const API = "https://api.github.com/repos/o/r";
+const ref = { owner: "o", repo: "r" };
+
+/** Tape a list spread over pages joined by `Link: rel="next"` headers. */
+async function tapePages(dir: string, url: string, pages: unknown[]) {
+	const rec = createCassette("record", dir);
+	for (const [i, data] of pages.entries()) {
+		const pageUrl = i ? `${url}&page=${i + 1}` : url;
+		const next =
+			i + 1 < pages.length ? `<${url}&page=${i + 2}>; rel="next"` : undefined;
+		await rec.record(
+			{ method: "GET", url: pageUrl },
+			{ status: 200, headers: next ? { link: next } : {}, data },
+		);
+	}
+}
+
+const pull = (number: number, branch: string, login = "o") => ({
+	number,
+	state: "open",
+	head: { ref: branch, user: { login } },
+});
+
+async function runOpenPrFallbackTest(dir: string) {
+	await tapePages(dir, `${API}/pulls?head=o%3Afeat&state=open&per_page=10`, [
+		[],
+	]);
+	// The match sits on the second page, behind a fork's same-named branch
+	await tapePages(
+		dir,
+		`${API}/pulls?state=open&per_page=100&sort=updated&direction=desc`,
+		[
+			[pull(1, "main"), pull(2, "feat", "fork")],
+			[pull(3, "other"), pull(4, "feat")],
+		],
+	);
+	const gh = new Gh(undefined, { replay: dir });
+	assert.equal(await gh.findOpenPrForBranch(ref, ref, "feat"), 4);
+	// Capped scans give up instead of walking every open PR
+	assert.equal(await gh.findOpenPrForBranch(ref, ref, "feat", 2), null);
+}
+
+async function runPrByShaTest(dir: string) {
+	await tapePages(dir, `${API}/commits/abc/pulls?per_page=100`, [
+		[{ ...pull(5, "old"), state: "closed" }],
+		[pull(6, "feat")],
+	]);
+	const gh = new Gh(undefined, { replay: dir });
+	assert.equal(await gh.findPrBySha(ref, "abc"), 6);
+	assert.equal(await gh.findPrBySha(ref, "abc", 1), 5);
+}
+
+async function runBranchesTest(dir: string) {
+	const branch = (name: string) => ({ name, commit: { sha: "abc" } });
+	await tapePages(dir, `${API}/commits/abc/branches-where-head?per_page=100`, [
+		[branch("a"), branch("b")],
+		[branch("c")],
+	]);
+	const gh = new Gh(undefined, { replay: dir });
+	assert.deepEqual(await gh.branchesForCommit(ref, "abc"), ["a", "b", "c"]);
+	assert.deepEqual(await gh.branchesForCommit(ref, "abc", 2), ["a", "b"]);
+}
+
+async function runFailingShaTest(dir: string) {
+	const run = (head_sha: string, conclusion: string | null) => ({
+		head_sha,
+		status: conclusion ? "completed" : "in_progress",
+		conclusion,
+	});
+	const runs = (...workflow_runs: unknown[]) => ({
+		total_count: 3,
+		workflow_runs,
+	});
+	await tapePages(dir, `${API}/actions/runs?branch=feat&per_page=100`, [
+		runs(run("s1", null), run("s2", "success")),
+		runs(run("s3", "timed_out")),
+	]);
+	const gh = new Gh(undefined, { replay: dir });
+	assert.equal(await gh.latestFailingShaForBranch(ref, "feat"), "s3");
+	assert.equal(await gh.latestFailingShaForBranch(ref, "feat", 2), null);
+}
+
+async function runAnnotationsTest(dir: string) {
+	const ann = (path: string, level: string, start_line = 1) => ({
+		path,
+		annotation_level: level,
+		start_line,
+		end_line: start_line,
+		title: null,
+		message: `${level} in ${path}`,
+	});
+	await tapePages(dir, `${API}/check-runs/11/annotations?per_page=100`, [
+		[
+			ann("src/a.ts", "failure", 3),
+			ann("src/a.ts", "notice"),
+			ann(".github", "failure"),
+		],
+		[ann("src/b.ts", "warning", 7), ann("src/c.ts", "failure")],
+	]);
+	const gh = new Gh(undefined, { replay: dir });
+	const job = { id: 11, name: "lint" };
+	const all = await gh.listAnnotations(ref, job);
+	assert.equal(all.truncated, false);
+	// Notices and the runner's own exit-code notes are dropped
+	assert.deepEqual(
+		all.items.map((a) => [a.jobName, a.path, a.startLine, a.level]),
+		[
+			["lint", "src/a.ts", 3, "failure"],
+			["lint", "src/b.ts", 7, "warning"],
+			["lint", "src/c.ts", 1, "failure"],
+		],
+	);
+	const capped = await gh.listAnnotations(ref, job, 4);
+	assert.equal(capped.truncated, true);
+	assert.deepEqual(
+		capped.items.map((a) => a.path),
+		["src/a.ts", "src/b.ts"],
+	);
+}
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "awt-github-"));
+try {
+	await runOpenPrFallbackTest(dir);
+	await runPrByShaTest(dir);
+	await runBranchesTest(dir);
+	await runFailingShaTest(dir);
+	await runAnnotationsTest(dir);
+} finally {
+	await fs.rm(dir, { recursive: true, force: true });
+}
@@ -1,38 +1,271 @@
 import { Octokit } from "@octokit/rest";
-import type { RepoRef } from "./types.js";
+import {
+	type Cassette,
+	createCassette,
+	decodeData,
+	encodeData,
+} from "./cassette.js";
+import { ciVerdict } from "./ci.js";
+import {
+	type CacheStats,
+	createEtagCache,
+	type EtagCache,
+} from "./etag-cache.js";
+import type { CiLookupOptions, ForgeProvider } from "./forge.js";
+import { DEFAULT_HOST, type ForgeHost, githubHost } from "./host.js";
+import {
+	createRateLimitTracker,
+	type RateLimitState,
+	type RateLimitTracker,
+} from "./ratelimit.js";
+import type {
+	Annotation,
+	CiJob,
+	CiRun,
+	CiStatus,
+	ExternalCheck,
+	IssueCommentRest,
+	Paged,
+	PrCommentItem,
+	PrFile,
+	PrLite,
+	RepoRef,
+	RestComments,
+	ReviewCommentRest,
+	ReviewRest,
+	ReviewThreadGql,
+	RunArtifact,
+	WorkflowRun,
+} from "./types.js";
+import { withRateLimitRetry } from "./util.js";
 
-export class Gh {
+// Per-source ceiling for list endpoints without a caller-supplied cap
+const LIST_CAP = 1000;
+
+export interface GhOptions {
+	/** Persist the conditional-request cache here (e.g. `.awt/cache`). */
+	cacheDir?: string;
+	/** github.com unless given (GitHub Enterprise Server). */
+	host?: ForgeHost;
+	/** Save every request/response here (default: `AWT_GH_RECORD`). */
+	record?: string;
+	/** Answer from fixtures saved by `record`, offline (default: `AWT_GH_REPLAY`). */
+	replay?: string;
+}
+
+export class Gh implements ForgeProvider {
+	readonly kind = "github";
 	private octo: Octokit;
-	constructor(token?: string) {
-		this.octo = new Octokit(token ? { auth: token } : {});
+	private cache: EtagCache;
+	private rate: RateLimitTracker;
+	readonly host: ForgeHost;
+	constructor(token?: string, opts: GhOptions = {}) {
+		this.host = opts.host ?? githubHost(DEFAULT_HOST);
+		this.octo = new Octokit({
+			baseUrl: this.host.apiBaseUrl,
+			...(token ? { auth: token } : {}),
+		});
+		this.cache = createEtagCache(opts.cacheDir);
+		this.rate = createRateLimitTracker();
+		this.installRateLimit();
+		this.installEtagCache();
+		// Registered last so it wraps the cache: tapes hold what callers saw
+		const replay = opts.replay ?? process.env.AWT_GH_REPLAY;
+		const record = opts.record ?? process.env.AWT_GH_RECORD;
+		if (replay) this.installCassette(createCassette("replay", replay));
+		else if (record) this.installCassette(createCassette("record", record));
+	}
+
+	/** Conditional-request hit/miss counters (a 304 served from cache is a hit). */
+	cacheStats(): CacheStats {
+		return this.cache.stats();
+	}
+
+	/** Web link on this client's host, e.g. `webUrl("o/r/pull/1")`. */
+	webUrl(pathname: string): string {
+		return `${this.host.webUrl}/${pathname.replace(/^\/+/, "")}`;
+	}
+
+	/** Quota as of the last response; the watcher paces its polls on it. */
+	rateLimit(): RateLimitState {
+		return this.rate.state();
+	}
+
+	/**
+	 * Record quota headers from every response and retry short secondary
+	 * rate limits (`retry-after`) in place.
+	 */
+	private installRateLimit() {
+		const rate = this.rate;
+		this.octo.hook.wrap("request", (request, options) =>
+			withRateLimitRetry(async () => {
+				try {
+					const res = await request(options);
+					rate.record(res.headers, res.status);
+					return res;
+				} catch (e) {
+					const err = e as {
+						status?: number;
+						response?: { headers: Record<string, string | undefined> };
+					};
+					rate.record(err.response?.headers, err.status);
+					throw e;
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Record every request and its response (or error) to fixture files, or
+	 * replay them without touching the network.
+	 */
+	private installCassette(cassette: Cassette) {
+		this.octo.hook.wrap("request", async (request, options) => {
+			const req = this.octo.request.endpoint.parse(options);
+			const tapeReq = {
+				method: req.method,
+				url: req.url,
+				...(req.body !== undefined ? { body: req.body } : {}),
+			};
+			type Res = Awaited<ReturnType<typeof request>>;
+			if (cassette.mode === "replay") {
+				const res = await cassette.replay(tapeReq);
+				if (!res)
+					throw new Error(
+						`No recorded response for ${req.method} ${req.url} in ${cassette.dir}`,
+					);
+				const response = {
+					status: res.status,
+					url: req.url,
+					headers: res.headers,
+					data: decodeData(res),
+				};
+				if (res.error)
+					throw Object.assign(new Error(res.error), {
+						status: res.status,
+						response,
+					});
+				return response as Res;
+			}
+			try {
+				const res = await request(options);
+				await cassette.record(tapeReq, {
+					status: res.status,
+					headers: res.headers,
+					...encodeData(res.data),
+				});
+				return res;
+			} catch (e) {
+				const err = e as {
+					message?: string;
+					status?: number;
+					response?: {
+						headers: Record<string, string | undefined>;
+						data?: unknown;
+					};
+				};
+				await cassette.record(tapeReq, {
+					status: err.status ?? 0,
+					headers: err.response?.headers ?? {},
+					...encodeData(err.response?.data),
+					error: String(err.message ?? e),
+				});
+				throw e;
+			}
+		});
+	}
+
+	/**
+	 * Send If-None-Match / If-Modified-Since on GETs we have seen before and
+	 * answer 304s from the cache; 304s do not count against the rate limit.
+	 */
+	private installEtagCache() {
+		const cache = this.cache;
+		this.octo.hook.wrap("request", async (request, options) => {
+			const req = this.octo.request.endpoint.parse(options);
+			// Job logs and artifact zips are large, redirect to blob storage and never change
+			if (
+				req.method !== "GET" ||
+				/\/(logs|zip)$/.test(req.url.split("?")[0] ?? "")
+			)
+				return request(options);
+			await cache.ready;
+			const key = `${req.url} ${req.headers.accept ?? ""}`;
+			const entry = cache.get(key);
+			if (entry) {
+				options.headers = {
+					...options.headers,
+					...(entry.etag ? { "if-none-match": entry.etag } : {}),
+					...(entry.lastModified
+						? { "if-modified-since": entry.lastModified }
+						: {}),
+				};
+			}
+			try {
+				const res = await request(options);
+				cache.miss();
+				const etag = res.headers.etag;
+				const lastModified = res.headers["last-modified"];
+				if (etag || lastModified) {
+					cache.set(key, {
+						etag,
+						lastModified,
+						data: res.data,
+						link: res.headers.link,
+					});
+				}
+				return res;
+			} catch (e) {
+				const err = e as {
+					status?: number;
+					response?: { headers: Record<string, string | undefined> };
+				};
+				if (err.status !== 304 || !entry) throw e;
+				cache.hit();
+				return {
+					status: 200,
+					url: req.url,
+					headers: { ...err.response?.headers, link: entry.link },
+					data: entry.data,
+				} as Awaited<ReturnType<typeof request>>;
+			}
+		});
 	}
 
 	async findOpenPrForBranch(
 		ref: RepoRef,
-		headOwner: string,
+		head: RepoRef,
 		branch: string,
+		cap = 500,
 	): Promise<number | null> {
+		const headOwner = head.owner;
 		try {
-			const head = `${headOwner}:${branch}`;
 			const { data } = await this.octo.pulls.list({
 				...ref,
-				head,
+				head: `${headOwner}:${branch}`,
 				state: "open",
 				per_page: 10,
 			});
 			const [firstPr] = data;
 			if (firstPr) return firstPr.number;
 		} catch {}
-		// Fallback: scan open PRs and match by head.ref
+		// Fallback: scan open PRs and match by head.ref; forks often share
+		// branch names, so the head owner must match as well
 		try {
-			const { data } = await this.octo.pulls.list({
-				...ref,
-				state: "open",
-				per_page: 100,
-				sort: "updated",
-				direction: "desc",
-			});
-			const match = data.find((pull) => (pull.head?.ref || "") === branch);
+			const match = await this.findInPages(
+				this.octo.paginate.iterator(this.octo.pulls.list, {
+					...ref,
+					state: "open",
+					per_page: 100,
+					sort: "updated",
+					direction: "desc",
+				}),
+				cap,
+				(pull) =>
+					(pull.head?.ref || "") === branch &&
+					(pull.head?.user?.login ?? headOwner).toLowerCase() ===
+						headOwner.toLowerCase(),
+			);
 			return match ? match.number : null;
 		} catch {
 			return null;
@@ -54,45 +287,75 @@ export class Gh {
 		return { number: pr.number, headRefName: pr.head?.ref ?? "" };
 	}
 
-	async getPrLite(
-		ref: RepoRef,
-		pr: number,
-	): Promise<{
-		mergeable_state: string | null;
-		headSha: string;
-		html_url: string;
-	}> {
+	async getPrLite(ref: RepoRef, pr: number): Promise<PrLite> {
 		const { data } = await this.octo.pulls.get({ ...ref, pull_number: pr });
 		return {
 			mergeable_state: data.mergeable_state ?? null,
 			headSha: data.head.sha,
+			baseRef: data.base.ref,
+			baseSha: data.base.sha ?? null,
 			html_url: data.html_url,
 		};
 	}
 
-	async listCommentsSince(
+	/**
+	 * Walk a paginated REST list until it is exhausted or `cap` items are
+	 * collected; `truncated` says more items were left on the server.
+	 */
+	private async collectPages<T>(
+		pages: AsyncIterable<{ data: T[] }>,
+		cap: number,
+	): Promise<Paged<T>> {
+		const items: T[] = [];
+		for await (const page of pages) {
+			for (const item of page.data) {
+				if (items.length >= cap) return { items, truncated: true };
+				items.push(item);
+			}
+		}
+		return { items, truncated: false };
+	}
+
+	/** First item of a paginated REST list matching `pred`, within `cap` items. */
+	private async findInPages<T>(
+		pages: AsyncIterable<{ data: T[] }>,
+		cap: number,
+		pred: (item: T) => boolean,
+	): Promise<T | null> {
+		let seen = 0;
+		for await (const page of pages) {
+			for (const item of page.data) {
+				if (seen++ >= cap) return null;
+				if (pred(item)) return item;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Issue comments, review line comments and review summaries of a PR as
+	 * one flat list; with `sinceIso` only newer ones. Sources that fail are skipped.
+	 */
+	private async listPrCommentItems(
 		ref: RepoRef,
 		pr: number,
-		sinceIso: string,
-		cap = 30,
-	): Promise<
-		{ author: string; createdAt: string; body: string; url: string }[]
-	> {
-		const items: {
-			author: string;
-			createdAt: string;
-			body: string;
-			url: string;
-		}[] = [];
-		// Issue comments
+		sinceIso: string | null,
+	): Promise<Paged<PrCommentItem>> {
+		const items: PrCommentItem[] = [];
+		let truncated = false;
+		const since = sinceIso ? { since: sinceIso } : {};
 		try {
-			const res = await this.octo.issues.listComments({
-				...ref,
-				issue_number: pr,
-				per_page: 100,
-				since: sinceIso,
-			});
-			for (const c of res.data) {
+			const res = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.issues.listComments, {
+					...ref,
+					issue_number: pr,
+					per_page: 100,
+					...since,
+				}),
+				LIST_CAP,
+			);
+			truncated ||= res.truncated;
+			for (const c of res.items) {
 				items.push({
 					author: c.user?.login || "unknown",
 					createdAt: c.created_at || "",
@@ -103,13 +366,17 @@ export class Gh {
 		} catch {}
 		// Review comments (code review line comments)
 		try {
-			const rc = await this.octo.pulls.listReviewComments({
-				...ref,
-				pull_number: pr,
-				per_page: 100,
-				since: sinceIso,
-			});
-			for (const c of rc.data) {
+			const res = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.pulls.listReviewComments, {
+					...ref,
+					pull_number: pr,
+					per_page: 100,
+					...since,
+				}),
+				LIST_CAP,
+			);
+			truncated ||= res.truncated;
+			for (const c of res.items) {
 				items.push({
 					author: c.user?.login || "unknown",
 					createdAt: c.created_at || "",
@@ -118,160 +385,177 @@ export class Gh {
 				});
 			}
 		} catch {}
-		// Review summaries
+		// Review summaries (no `since` filter on this endpoint)
 		try {
-			const rv = await this.octo.pulls.listReviews({
-				...ref,
-				pull_number: pr,
-				per_page: 100,
-			});
-			for (const r of rv.data) {
+			const res = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.pulls.listReviews, {
+					...ref,
+					pull_number: pr,
+					per_page: 100,
+				}),
+				LIST_CAP,
+			);
+			truncated ||= res.truncated;
+			for (const r of res.items) {
 				const submitted = r.submitted_at || "";
-				if (submitted && submitted > sinceIso) {
-					const htmlUrl =
+				if (sinceIso && !(submitted && submitted > sinceIso)) continue;
+				items.push({
+					author: r.user?.login || "unknown",
+					createdAt: submitted,
+					body: `[${r.state}]${r.body ? ` ${r.body}` : ""}`,
+					url:
 						typeof r.html_url === "string" && r.html_url.length
 							? r.html_url
 							: typeof r._links?.html?.href === "string"
 								? r._links.html.href
-								: "";
-					items.push({
-						author: r.user?.login || "unknown",
-						createdAt: submitted,
-						body: `[${r.state}]${r.body ? ` ${r.body}` : ""}`,
-						url: htmlUrl,
-					});
-				}
+								: "",
+				});
 			}
 		} catch {}
 		items.sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""));
-		return items.slice(0, cap);
+		return { items, truncated };
+	}
+
+	async listCommentsSince(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string,
+		cap = 30,
+	): Promise<Paged<PrCommentItem>> {
+		const all = await this.listPrCommentItems(ref, pr, sinceIso);
+		return {
+			items: all.items.slice(0, cap),
+			truncated: all.truncated || all.items.length > cap,
+		};
 	}
 
 	async listCommentsRecent(
 		ref: RepoRef,
 		pr: number,
 		cap = 100,
-	): Promise<
-		{ author: string; createdAt: string; body: string; url: string }[]
-	> {
-		const items: {
-			author: string;
-			createdAt: string;
-			body: string;
-			url: string;
-		}[] = [];
-		// Issue comments (recent)
-		try {
-			const res = await this.octo.issues.listComments({
-				...ref,
-				issue_number: pr,
-				per_page: 100,
-			});
-			for (const c of res.data) {
-				items.push({
-					author: c.user?.login || "unknown",
-					createdAt: c.created_at || "",
-					body: c.body || "",
-					url: c.html_url || "",
-				});
-			}
-		} catch {}
-		// Review comments
-		try {
-			const rc = await this.octo.pulls.listReviewComments({
+	): Promise<Paged<PrCommentItem>> {
+		const all = await this.listPrCommentItems(ref, pr, null);
+		return {
+			items: all.items.slice(-cap),
+			truncated: all.truncated || all.items.length > cap,
+		};
+	}
+
+	/**
+	 * Check runs of apps other than GitHub Actions plus the latest commit
+	 * status per context for a sha. Actions jobs are covered by workflow runs.
+	 */
+	async listExternalChecks(
+		ref: RepoRef,
+		sha: string,
+		cap = 200,
+	): Promise<Paged<ExternalCheck>> {
+		const checkRuns = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.checks.listForRef, {
 				...ref,
-				pull_number: pr,
+				ref: sha,
 				per_page: 100,
-			});
-			for (const c of rc.data) {
-				items.push({
-					author: c.user?.login || "unknown",
-					createdAt: c.created_at || "",
-					body: c.body || "",
-					url: c.html_url || "",
-				});
-			}
-		} catch {}
-		// Reviews (summaries)
-		try {
-			const rv = await this.octo.pulls.listReviews({
+				filter: "latest",
+			}),
+			cap,
+		);
+		const items: ExternalCheck[] = checkRuns.items
+			.filter((c) => c.app?.slug !== "github-actions")
+			.map((c) => ({
+				kind: "check_run",
+				name: c.name,
+				app: c.app?.slug ?? null,
+				status: c.status,
+				conclusion: c.conclusion ?? null,
+				detailsUrl: c.details_url ?? c.html_url ?? null,
+				summary:
+					[c.output?.title, c.output?.summary].filter(Boolean).join("\n") ||
+					null,
+				text: c.output?.text ?? null,
+			}));
+		const statuses = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.repos.listCommitStatusesForRef, {
 				...ref,
-				pull_number: pr,
+				ref: sha,
 				per_page: 100,
+			}),
+			cap,
+		);
+		// Newest first: the first status seen for a context is its current one
+		const seen = new Set<string>();
+		for (const st of statuses.items) {
+			if (seen.has(st.context)) continue;
+			seen.add(st.context);
+			items.push({
+				kind: "status",
+				name: st.context,
+				app: null,
+				status: st.state === "pending" ? "in_progress" : "completed",
+				conclusion:
+					st.state === "pending"
+						? null
+						: st.state === "error"
+							? "failure"
+							: st.state,
+				detailsUrl: st.target_url ?? null,
+				summary: st.description ?? null,
+				text: null,
 			});
-			for (const r of rv.data) {
-				const submitted = r.submitted_at || "";
-				items.push({
-					author: r.user?.login || "unknown",
-					createdAt: submitted,
-					body: `[${r.state}]${r.body ? ` ${r.body}` : ""}`,
-					url:
-						typeof r.html_url === "string" && r.html_url.length
-							? r.html_url
-							: typeof r._links?.html?.href === "string"
-								? r._links.html.href
-								: "",
-				});
-			}
-		} catch {}
-		items.sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""));
-		return items.slice(-cap);
+		}
+		return {
+			items,
+			truncated: checkRuns.truncated || statuses.truncated,
+		};
 	}
 
+	/**
+	 * Workflow runs and external checks for a sha, with one verdict over both:
+	 * null while anything is pending, "failure" if anything failed. A token
+	 * without Checks or Statuses read access gets the verdict of runs alone.
+	 */
 	async latestCiForSha(
 		ref: RepoRef,
 		sha: string,
-	): Promise<{
-		conclusion: string | null;
-		runs: {
-			id: number;
-			url: string;
-			status: string;
-			conclusion: string | null;
-			createdAt: string | null;
-		}[];
-	}> {
-		const runsRes = await this.octo.actions.listWorkflowRunsForRepo({
-			...ref,
-			per_page: 20,
-			head_sha: sha,
-		});
-		const runs = runsRes.data.workflow_runs.map((run) => ({
+		{ cap = 200, log }: CiLookupOptions = {},
+	): Promise<CiStatus> {
+		const res = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.actions.listWorkflowRunsForRepo, {
+				...ref,
+				per_page: 100,
+				head_sha: sha,
+			}),
+			cap,
+		);
+		const runs: CiRun[] = res.items.map((run) => ({
 			id: run.id,
 			url: run.html_url ?? "",
 			status: run.status ?? "queued",
 			conclusion: run.conclusion ?? null,
 			createdAt: run.run_started_at ?? run.created_at ?? run.updated_at ?? null,
+			attempt: run.run_attempt ?? 1,
+			workflowId: run.workflow_id ?? null,
 		}));
-		const failureLike = new Set(["failure", "timed_out", "cancelled"]);
-		const allCompleted =
-			runs.length > 0 && runs.every((r) => r.status === "completed");
-		const anyFailed = runs.some(
-			(r) =>
-				r.status === "completed" &&
-				r.conclusion &&
-				failureLike.has(r.conclusion),
+		const noChecks: Paged<ExternalCheck> = { items: [], truncated: false };
+		const checks = await this.listExternalChecks(ref, sha, cap).catch(
+			log?.swallow("listExternalChecks", noChecks) ?? (() => noChecks),
 		);
-		let conclusion: string | null = null;
-		if (allCompleted) {
-			conclusion = anyFailed
-				? "failure"
-				: runs.every((r) => r.conclusion === "success")
-					? "success"
-					: "neutral";
-		}
-		return { conclusion, runs };
+		return {
+			conclusion: ciVerdict(runs, checks.items),
+			runs,
+			checks: checks.items,
+			truncated: res.truncated || checks.truncated,
+		};
+	}
+
+	/** Re-run only the failed jobs of a workflow run (creates a new run attempt). */
+	async rerunFailedJobs(ref: RepoRef, runId: number): Promise<void> {
+		await this.octo.actions.reRunWorkflowFailedJobs({ ...ref, run_id: runId });
 	}
 
 	async headShaForBranch(ref: RepoRef, branch: string): Promise<string | null> {
 		try {
-			const runsRes = await this.octo.actions.listWorkflowRunsForRepo({
-				...ref,
-				per_page: 1,
-				branch,
-			});
-			const run = runsRes.data.workflow_runs[0];
-			return run?.head_sha ?? null;
+			const { data } = await this.octo.repos.getBranch({ ...ref, branch });
+			return data.commit.sha;
 		} catch {
 			return null;
 		}
@@ -284,23 +568,22 @@ export class Gh {
 	async latestFailingShaForBranch(
 		ref: RepoRef,
 		branch: string,
-		perPage = 50,
+		cap = 300,
 	): Promise<string | null> {
 		try {
-			const runsRes = await this.octo.actions.listWorkflowRunsForRepo({
-				...ref,
-				branch,
-				per_page: Math.min(Math.max(perPage, 1), 100),
-			});
 			const failureLike = new Set(["failure", "timed_out", "cancelled"]);
-			for (const run of runsRes.data.workflow_runs) {
-				const status = (run.status || "").toString();
-				const concl = (run.conclusion || "").toString();
-				if (status === "completed" && failureLike.has(concl)) {
-					return run.head_sha ?? null;
-				}
-			}
-			return null;
+			const run = await this.findInPages(
+				this.octo.paginate.iterator(this.octo.actions.listWorkflowRunsForRepo, {
+					...ref,
+					branch,
+					per_page: 100,
+				}),
+				cap,
+				(r) =>
+					(r.status || "").toString() === "completed" &&
+					failureLike.has((r.conclusion || "").toString()),
+			);
+			return run?.head_sha ?? null;
 		} catch {
 			return null;
 		}
@@ -309,27 +592,38 @@ export class Gh {
 	async listJobsForRun(
 		ref: RepoRef,
 		runId: number,
-	): Promise<
-		{
-			id: number;
-			name: string;
-			html_url: string;
-			conclusion: string | null;
-			status: string | null;
-		}[]
-	> {
-		const { data } = await this.octo.actions.listJobsForWorkflowRun({
-			...ref,
-			run_id: runId,
-			per_page: 100,
-		});
-		return data.jobs.map((job) => ({
-			id: job.id,
-			name: job.name,
-			html_url: job.html_url ?? "",
-			conclusion: job.conclusion ?? null,
-			status: job.status ?? null,
-		}));
+		cap = 500,
+	): Promise<Paged<CiJob>> {
+		const res = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.actions.listJobsForWorkflowRun, {
+				...ref,
+				run_id: runId,
+				per_page: 100,
+			}),
+			cap,
+		);
+		return {
+			items: res.items.map((job) => ({
+				id: job.id,
+				name: job.name,
+				html_url: job.html_url ?? "",
+				conclusion: job.conclusion ?? null,
+				status: job.status ?? null,
+				...(job.steps
+					? {
+							steps: job.steps.map((st) => ({
+								number: st.number,
+								name: st.name,
+								status: st.status,
+								conclusion: st.conclusion ?? null,
+								startedAt: st.started_at ?? null,
+								completedAt: st.completed_at ?? null,
+							})),
+						}
+					: {}),
+			})),
+			truncated: res.truncated,
+		};
 	}
 
 	async getBranchSha(ref: RepoRef, branch: string): Promise<string | null> {
@@ -352,6 +646,81 @@ export class Gh {
 		}
 	}
 
+	/**
+	 * Warning and failure annotations of a job's check run. The runner's own
+	 * "Process completed with exit code" notes (path `.github`) are dropped.
+	 */
+	async listAnnotations(
+		ref: RepoRef,
+		job: { id: number; name: string },
+		cap = 200,
+	): Promise<Paged<Annotation>> {
+		const res = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.checks.listAnnotations, {
+				...ref,
+				check_run_id: job.id,
+				per_page: 100,
+			}),
+			cap,
+		);
+		const items: Annotation[] = [];
+		for (const a of res.items) {
+			const level = a.annotation_level;
+			if (level !== "warning" && level !== "failure") continue;
+			if (!a.path || a.path === ".github") continue;
+			items.push({
+				jobId: job.id,
+				jobName: job.name,
+				path: a.path,
+				startLine: a.start_line,
+				endLine: a.end_line,
+				level,
+				title: a.title ?? null,
+				message: a.message ?? "",
+			});
+		}
+		return { items, truncated: res.truncated };
+	}
+
+	async listRunArtifacts(
+		ref: RepoRef,
+		runId: number,
+		cap = 100,
+	): Promise<Paged<RunArtifact>> {
+		const res = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.actions.listWorkflowRunArtifacts, {
+				...ref,
+				run_id: runId,
+				per_page: 100,
+			}),
+			cap,
+		);
+		return {
+			items: res.items.map((a) => ({
+				id: a.id,
+				name: a.name,
+				sizeInBytes: a.size_in_bytes,
+				expired: a.expired,
+			})),
+			truncated: res.truncated,
+		};
+	}
+
+	/** Artifact zip archive (follows the redirect to blob storage). */
+	async downloadArtifact(ref: RepoRef, artifactId: number): Promise<Buffer> {
+		const res = await this.octo.actions.downloadArtifact({
+			...ref,
+			artifact_id: artifactId,
+			archive_format: "zip",
+		});
+		const data = res.data as unknown;
+		if (Buffer.isBuffer(data)) return data;
+		if (data instanceof ArrayBuffer) return Buffer.from(data);
+		if (ArrayBuffer.isView(data))
+			return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+		throw new Error(`unexpected artifact payload for ${artifactId}`);
+	}
+
 	async fetchJobLog(ref: RepoRef, jobId: number): Promise<string> {
 		// GET /repos/{owner}/{repo}/actions/jobs/{job_id}/logs returns raw text (may be gzip-encoded)
 		const res = await this.octo.request(
@@ -389,21 +758,25 @@ export class Gh {
 	async prFiles(
 		ref: RepoRef,
 		pr: number,
-		limit = 200,
-	): Promise<
-		{ filename: string; status: string; additions: number; changes: number }[]
-	> {
-		const { data } = await this.octo.pulls.listFiles({
-			...ref,
-			pull_number: pr,
-			per_page: Math.min(limit, 300),
-		});
-		return data.map((f) => ({
-			filename: f.filename,
-			status: f.status as string,
-			additions: f.additions ?? 0,
-			changes: f.changes ?? 0,
-		}));
+		cap = 3000, // the API lists at most 3000 files per PR
+	): Promise<Paged<PrFile>> {
+		const res = await this.collectPages(
+			this.octo.paginate.iterator(this.octo.pulls.listFiles, {
+				...ref,
+				pull_number: pr,
+				per_page: 100,
+			}),
+			cap,
+		);
+		return {
+			items: res.items.map((f) => ({
+				filename: f.filename,
+				status: f.status as string,
+				additions: f.additions ?? 0,
+				changes: f.changes ?? 0,
+			})),
+			truncated: res.truncated,
+		};
 	}
 
 	async getCommitDate(ref: RepoRef, sha: string): Promise<string | null> {
@@ -417,70 +790,109 @@ export class Gh {
 		}
 	}
 
-	async findPrBySha(ref: RepoRef, sha: string): Promise<number | null> {
+	/** A PR containing `sha`, open ones first. */
+	async findPrBySha(
+		ref: RepoRef,
+		sha: string,
+		cap = 100,
+	): Promise<number | null> {
 		try {
-			const { data } =
-				await this.octo.repos.listPullRequestsAssociatedWithCommit({
-					...ref,
-					commit_sha: sha,
-				});
-			return data[0]?.number ?? null;
+			const { items } = await this.collectPages(
+				this.octo.paginate.iterator(
+					this.octo.repos.listPullRequestsAssociatedWithCommit,
+					{ ...ref, commit_sha: sha, per_page: 100 },
+				),
+				cap,
+			);
+			const pr = items.find((p) => p.state === "open") ?? items[0];
+			return pr?.number ?? null;
 		} catch {
 			return null;
 		}
 	}
 
+	/**
+	 * Workflow runs created since `sinceIso`, optionally for one branch
+	 * (null = all branches) and one workflow. Failures yield an empty list.
+	 */
 	async listWorkflowRunsSince(
 		ref: RepoRef,
-		branch: string,
+		branch: string | null,
 		sinceIso: string,
-		perPage = 100,
-	): Promise<
-		{
-			id: number;
-			url: string;
-			status: string;
-			conclusion: string | null;
-			createdAt: string | null;
-			name: string | null;
-			headSha: string | null;
-		}[]
-	> {
+		cap = 300,
+		workflowId?: number,
+	): Promise<Paged<WorkflowRun>> {
 		try {
-			const res = await this.octo.actions.listWorkflowRunsForRepo({
+			const params = {
 				...ref,
-				branch,
-				per_page: Math.min(100, Math.max(1, perPage)),
+				...(branch ? { branch } : {}),
+				per_page: 100,
 				// GitHub supports 'created' filter with qualifiers like '>=YYYY-MM-DD'
 				created: `>=${sinceIso}`,
-			});
-			return res.data.workflow_runs.map((run) => ({
-				id: run.id,
-				url: run.html_url ?? "",
-				status: run.status ?? "queued",
-				conclusion: run.conclusion ?? null,
-				createdAt:
-					run.run_started_at ?? run.created_at ?? run.updated_at ?? null,
-				name: run.name ?? null,
-				headSha: run.head_sha ?? null,
-			}));
+			};
+			const res = workflowId
+				? await this.collectPages(
+						this.octo.paginate.iterator(this.octo.actions.listWorkflowRuns, {
+							...params,
+							workflow_id: workflowId,
+						}),
+						cap,
+					)
+				: await this.collectPages(
+						this.octo.paginate.iterator(
+							this.octo.actions.listWorkflowRunsForRepo,
+							params,
+						),
+						cap,
+					);
+			return {
+				items: res.items.map((run) => ({
+					id: run.id,
+					url: run.html_url ?? "",
+					status: run.status ?? "queued",
+					conclusion: run.conclusion ?? null,
+					createdAt:
+						run.run_started_at ?? run.created_at ?? run.updated_at ?? null,
+					name: run.name ?? null,
+					headSha: run.head_sha ?? null,
+					headBranch: run.head_branch ?? null,
+					headRepo: run.head_repository?.full_name ?? null,
+					workflowId: run.workflow_id ?? null,
+				})),
+				truncated: res.truncated,
+			};
 		} catch {
-			return [];
+			return { items: [], truncated: false };
+		}
+	}
+
+	async defaultBranch(ref: RepoRef): Promise<string | null> {
+		try {
+			const { data } = await this.octo.repos.get({ ...ref });
+			return data.default_branch ?? null;
+		} catch {
+			return null;
 		}
 	}
 
 	/**
 	 * Return branch names on GitHub that contain the given head commit.
 	 */
-	async branchesForCommit(ref: RepoRef, sha: string): Promise<string[] | null> {
+	async branchesForCommit(
+		ref: RepoRef,
+		sha: string,
+		cap = 300,
+	): Promise<string[] | null> {
 		try {
-			// Octokit endpoint: repos.listBranchesForHeadCommit
-			const { data } = await this.octo.repos.listBranchesForHeadCommit({
-				...ref,
-				commit_sha: sha,
-				per_page: 100,
-			});
-			return data.map((b) => b.name).filter(Boolean);
+			const { items } = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.repos.listBranchesForHeadCommit, {
+					...ref,
+					commit_sha: sha,
+					per_page: 100,
+				}),
+				cap,
+			);
+			return items.map((b) => b.name).filter(Boolean);
 		} catch {
 			return null;
 		}
@@ -496,132 +908,75 @@ export class Gh {
 		sinceIso: string,
 		cap = 1000,
 		fullThreads = true,
-	): Promise<{
-		issueComments: {
-			id: number;
-			body: string;
-			created_at: string;
-			updated_at?: string;
-			html_url: string;
-			user: string;
-		}[];
-		reviewComments: {
-			id: number;
-			body: string;
-			created_at: string;
-			updated_at?: string;
-			html_url: string;
-			user: string;
-			path: string;
-			line?: number;
-			start_line?: number;
-			original_line?: number;
-			side?: string | null;
-			commit_id?: string;
-			in_reply_to_id?: number | null;
-			thread_id?: number | null;
-		}[];
-		reviews: {
-			id: number;
-			body: string;
-			state: string;
-			html_url: string;
-			submitted_at?: string;
-			created_at?: string;
-			updated_at?: string;
-			user: string;
-		}[];
-	}> {
-		const perPage = 100;
+		// false when review threads come from listReviewThreads instead
+		includeReviewComments = true,
+	): Promise<RestComments> {
+		let truncated = false;
 
 		// Issue comments (since supported)
-		const issueComments: {
-			id: number;
-			body: string;
-			created_at: string;
-			updated_at?: string;
-			html_url: string;
-			user: string;
-		}[] = [];
+		const issueComments: IssueCommentRest[] = [];
 		try {
-			let page = 1;
-			while (true) {
-				const { data } = await this.octo.issues.listComments({
+			const res = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.issues.listComments, {
 					...ref,
 					issue_number: pr,
-					per_page: perPage,
-					page,
+					per_page: 100,
 					since: sinceIso,
+				}),
+				cap,
+			);
+			truncated ||= res.truncated;
+			for (const c of res.items) {
+				issueComments.push({
+					id: c.id,
+					body: c.body || "",
+					created_at: c.created_at || "",
+					updated_at: c.updated_at || undefined,
+					html_url: c.html_url || "",
+					user: c.user?.login || "unknown",
 				});
-				for (const c of data) {
-					issueComments.push({
-						id: c.id,
-						body: c.body || "",
-						created_at: c.created_at || "",
-						updated_at: c.updated_at || undefined,
-						html_url: c.html_url || "",
-						user: c.user?.login || "unknown",
-					});
-				}
-				if (data.length < perPage || issueComments.length >= cap) break;
-				page += 1;
 			}
 		} catch {
 			// ignore
 		}
 
 		// Review comments (no reliable since in all modes; paginate + filter)
-		const reviewComments: {
-			id: number;
-			body: string;
-			created_at: string;
-			updated_at?: string;
-			html_url: string;
-			user: string;
-			path: string;
-			line?: number;
-			start_line?: number;
-			original_line?: number;
-			side?: string | null;
-			commit_id?: string;
-			in_reply_to_id?: number | null;
-			thread_id?: number | null;
-		}[] = [];
+		const reviewComments: ReviewCommentRest[] = [];
 		try {
-			let page = 1;
-			while (true) {
-				const { data } = await this.octo.pulls.listReviewComments({
-					...ref,
-					pull_number: pr,
-					per_page: perPage,
-					page,
-				});
-				for (const c of data) {
-					const created = c.created_at || "";
-					if (!created || created >= sinceIso) {
-						reviewComments.push({
-							id: c.id,
-							body: c.body || "",
-							created_at: created,
-							updated_at: c.updated_at || undefined,
-							html_url: c.html_url || "",
-							user: c.user?.login || "unknown",
-							path: c.path || "",
-							line: (c as any).line,
-							start_line: (c as any).start_line,
-							original_line: (c as any).original_line,
-							side: (c as any).side || null,
-							commit_id: (c as any).commit_id,
-							in_reply_to_id: (c as any).in_reply_to_id ?? null,
-							thread_id: (c as any).pull_request_review_id ?? null,
-						});
-					}
+			const res = includeReviewComments
+				? await this.collectPages(
+						this.octo.paginate.iterator(this.octo.pulls.listReviewComments, {
+							...ref,
+							pull_number: pr,
+							per_page: 100,
+						}),
+						cap,
+					)
+				: { items: [], truncated: false };
+			truncated ||= res.truncated;
+			for (const c of res.items) {
+				const created = c.created_at || "";
+				if (!created || created >= sinceIso) {
+					reviewComments.push({
+						id: c.id,
+						body: c.body || "",
+						created_at: created,
+						updated_at: c.updated_at || undefined,
+						html_url: c.html_url || "",
+						user: c.user?.login || "unknown",
+						path: c.path || "",
+						line: (c as any).line,
+						start_line: (c as any).start_line,
+						original_line: (c as any).original_line,
+						side: (c as any).side || null,
+						commit_id: (c as any).commit_id,
+						in_reply_to_id: (c as any).in_reply_to_id ?? null,
+						thread_id: (c as any).pull_request_review_id ?? null,
+					});
 				}
-				if (data.length < perPage || reviewComments.length >= cap) break;
-				page += 1;
 			}
 			// If fullThreads: backfill parents for replies (best-effort, bounded)
-			if (fullThreads) {
+			if (includeReviewComments && fullThreads) {
 				const parentsToFetch = Array.from(
 					new Set(
 						reviewComments
@@ -663,57 +1018,114 @@ export class Gh {
 		}
 
 		// Review summaries (filter client-side)
-		const reviews: {
-			id: number;
-			body: string;
-			state: string;
-			html_url: string;
-			submitted_at?: string;
-			created_at?: string;
-			updated_at?: string;
-			user: string;
-		}[] = [];
+		const reviews: ReviewRest[] = [];
 		try {
-			let page = 1;
-			while (true) {
-				const { data } = await this.octo.pulls.listReviews({
+			const res = await this.collectPages(
+				this.octo.paginate.iterator(this.octo.pulls.listReviews, {
 					...ref,
 					pull_number: pr,
-					per_page: perPage,
-					page,
-				});
-				for (const r of data) {
-					const submitted =
-						(r.submitted_at as string | undefined) ||
-						((r as any).created_at as string | undefined) ||
-						((r as any).updated_at as string | undefined) ||
-						"";
-					if (!submitted || submitted >= sinceIso) {
-						reviews.push({
-							id: r.id,
-							body: r.body || "",
-							state: r.state || "COMMENTED",
-							html_url:
-								typeof (r as any).html_url === "string" &&
-								(r as any).html_url.length
-									? ((r as any).html_url as string)
-									: typeof (r as any)._links?.html?.href === "string"
-										? ((r as any)._links.html.href as string)
-										: "",
-							submitted_at: r.submitted_at || undefined,
-							created_at: (r as any).created_at || undefined,
-							updated_at: (r as any).updated_at || undefined,
-							user: r.user?.login || "unknown",
-						});
-					}
+					per_page: 100,
+				}),
+				cap,
+			);
+			truncated ||= res.truncated;
+			for (const r of res.items) {
+				const submitted =
+					(r.submitted_at as string | undefined) ||
+					((r as any).created_at as string | undefined) ||
+					((r as any).updated_at as string | undefined) ||
+					"";
+				if (!submitted || submitted >= sinceIso) {
+					reviews.push({
+						id: r.id,
+						body: r.body || "",
+						state: r.state || "COMMENTED",
+						html_url:
+							typeof (r as any).html_url === "string" &&
+							(r as any).html_url.length
+								? ((r as any).html_url as string)
+								: typeof (r as any)._links?.html?.href === "string"
+									? ((r as any)._links.html.href as string)
+									: "",
+						submitted_at: r.submitted_at || undefined,
+						created_at: (r as any).created_at || undefined,
+						updated_at: (r as any).updated_at || undefined,
+						user: r.user?.login || "unknown",
+					});
 				}
-				if (data.length < perPage || reviews.length >= cap) break;
-				page += 1;
 			}
 		} catch {
 			// ignore
 		}
 
-		return { issueComments, reviewComments, reviews };
+		return { issueComments, reviewComments, reviews, truncated };
+	}
+
+	/**
+	 * Review threads via GraphQL: real thread membership plus resolved /
+	 * outdated state, who resolved it and the diff hunk. Throws on API errors
+	 * so callers can fall back to REST.
+	 */
+	async listReviewThreads(
+		ref: RepoRef,
+		pr: number,
+		maxThreads = 500,
+	): Promise<Paged<ReviewThreadGql>> {
+		const query = `query($owner: String!, $repo: String!, $pr: Int!, $after: String) {
+			repository(owner: $owner, name: $repo) {
+				pullRequest(number: $pr) {
+					reviewThreads(first: 100, after: $after) {
+						pageInfo { hasNextPage endCursor }
+						nodes {
+							id isResolved isOutdated path line startLine originalLine diffSide
+							resolvedBy { login }
+							comments(first: 100) {
+								pageInfo { hasNextPage }
+								nodes {
+									databaseId url body createdAt updatedAt diffHunk
+									author { login }
+									commit { oid }
+									replyTo { databaseId }
+								}
+							}
+						}
+					}
+				}
+			}
+		}`;
+		type Page = {
+			repository: {
+				pullRequest: {
+					reviewThreads: {
+						pageInfo: { hasNextPage: boolean; endCursor: string | null };
+						nodes: ReviewThreadGql[];
+					};
+				} | null;
+			} | null;
+		};
+		const out: ReviewThreadGql[] = [];
+		let after: string | null = null;
+		let more = false;
+		let longThreads = false;
+		while (out.length < maxThreads) {
+			const res: Page = await this.octo.graphql<Page>(query, {
+				...ref,
+				pr,
+				after,
+			});
+			const threads = res.repository?.pullRequest?.reviewThreads;
+			if (!threads) break;
+			out.push(...threads.nodes);
+			// Threads longer than one page of comments are cut, not paged
+			if (threads.nodes.some((t) => t.comments.pageInfo?.hasNextPage))
+				longThreads = true;
+			more = threads.pageInfo.hasNextPage;
+			if (!more) break;
+			after = threads.pageInfo.endCursor;
+		}
+		return {
+			items: out.slice(0, maxThreads),
+			truncated: more || longThreads || out.length > maxThreads,
+		};
 	}
 }
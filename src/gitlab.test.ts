@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+
+import {
+	discussionsToRest,
+	discussionsToThreads,
+	type GlDiscussion,
+	type GlNote,
+	type GlPipeline,
+	latestPipeline,
+	mergeableState,
+	runState,
+} from "./gitlab.js";
+
+function runStateTest() {
+	assert.deepEqual(runState("success"), {
+		status: "completed",
+		conclusion: "success",
+	});
+	assert.deepEqual(runState("failed"), {
+		status: "completed",
+		conclusion: "failure",
+	});
+	// "Passed with warnings" must not fail the verdict
+	assert.equal(runState("failed", true).conclusion, "neutral");
+	assert.equal(runState("canceled").conclusion, "cancelled");
+	assert.equal(runState("manual").conclusion, "action_required");
+	assert.deepEqual(runState("running"), {
+		status: "in_progress",
+		conclusion: null,
+	});
+	for (const pending of ["created", "pending", "waiting_for_resource"])
+		assert.deepEqual(runState(pending), { status: "queued", conclusion: null });
+}
+
+function runMergeableTest() {
+	const cases: [Parameters<typeof mergeableState>[0], string][] = [
+		[{ detailed_merge_status: "mergeable" }, "clean"],
+		[{ detailed_merge_status: "conflict" }, "dirty"],
+		[{ detailed_merge_status: "mergeable", has_conflicts: true }, "dirty"],
+		[{ detailed_merge_status: "need_rebase" }, "behind"],
+		[{ detailed_merge_status: "draft_status" }, "draft"],
+		[{ detailed_merge_status: "ci_still_running" }, "unstable"],
+		[{ detailed_merge_status: "not_approved" }, "blocked"],
+		[{ detailed_merge_status: "checking" }, "unknown"],
+		// Older GitLab without detailed_merge_status
+		[{ merge_status: "can_be_merged" }, "clean"],
+		[{ merge_status: "cannot_be_merged" }, "unknown"],
+	];
+	for (const [mr, want] of cases)
+		assert.equal(mergeableState(mr), want, JSON.stringify(mr));
+}
+
+function runLatestPipelineTest() {
+	const pipeline = (id: number, status: string): GlPipeline => ({
+		id,
+		project_id: 1,
+		sha: "abc",
+		ref: "feat",
+		status,
+		web_url: "",
+		created_at: null,
+		updated_at: null,
+	});
+	// Listed newest first by the API, but do not rely on it
+	assert.equal(
+		latestPipeline([
+			pipeline(11, "failed"),
+			pipeline(13, "success"),
+			pipeline(12, "canceled"),
+		])?.id,
+		13,
+	);
+	assert.equal(latestPipeline([]), null);
+}
+
+const note = (id: number, over: Partial<GlNote> = {}): GlNote => ({
+	id,
+	body: `note ${id}`,
+	author: { username: "rev" },
+	created_at: `2024-05-01T10:0${id}:00Z`,
+	updated_at: null,
+	system: false,
+	type: null,
+	...over,
+});
+const POSITION = {
+	head_sha: "abc",
+	new_path: "src/a.ts",
+	old_path: "src/a.ts",
+	new_line: 12,
+	old_line: null,
+	line_range: { start: { new_line: 10 } },
+};
+const DISCUSSIONS: GlDiscussion[] = [
+	{ id: "d1", notes: [note(1), note(2, { system: true })] },
+	{
+		id: "d2",
+		notes: [
+			note(3, { type: "DiffNote", position: POSITION, resolvable: true }),
+			note(5, {
+				type: "DiffNote",
+				resolvable: true,
+				resolved: true,
+				resolved_by: { username: "dev" },
+			}),
+		],
+	},
+	{
+		id: "d3",
+		notes: [
+			note(4, {
+				type: "DiffNote",
+				position: { ...POSITION, new_line: null, old_line: 7 },
+				resolvable: true,
+				resolved: false,
+			}),
+		],
+	},
+];
+const noteUrl = (id: number) => `https://gl/mr/1#note_${id}`;
+
+function runRestTest() {
+	const all = discussionsToRest(DISCUSSIONS, noteUrl, "2024-05-01T00:00:00Z");
+	assert.deepEqual(
+		all.issueComments.map((c) => [c.id, c.html_url]),
+		[[1, "https://gl/mr/1#note_1"]],
+	);
+	const [first, reply, left] = all.reviewComments;
+	assert.deepEqual(
+		[
+			first?.path,
+			first?.line,
+			first?.start_line,
+			first?.side,
+			first?.commit_id,
+		],
+		["src/a.ts", 12, 10, "RIGHT", "abc"],
+	);
+	assert.equal(first?.in_reply_to_id, null);
+	// Replies without a position inherit the thread's
+	assert.deepEqual(
+		[reply?.in_reply_to_id, reply?.thread_id, reply?.line],
+		[3, 3, 12],
+	);
+	assert.deepEqual([left?.side, left?.original_line], ["LEFT", 7]);
+
+	// Only note 5 is new: its whole thread comes along, unless asked not to
+	const since = "2024-05-01T10:05:00Z";
+	assert.deepEqual(
+		discussionsToRest(DISCUSSIONS, noteUrl, since).reviewComments.map(
+			(c) => c.id,
+		),
+		[3, 5],
+	);
+	assert.deepEqual(
+		discussionsToRest(DISCUSSIONS, noteUrl, since, {
+			fullThreads: false,
+		}).reviewComments.map((c) => c.id),
+		[5],
+	);
+	const noReview = discussionsToRest(DISCUSSIONS, noteUrl, since, {
+		includeReviewComments: false,
+	});
+	assert.deepEqual(noReview, { issueComments: [], reviewComments: [] });
+}
+
+function runThreadsTest() {
+	const threads = discussionsToThreads(DISCUSSIONS, noteUrl);
+	assert.deepEqual(
+		threads.map((t) => [t.id, t.isResolved, t.resolvedBy?.login ?? null]),
+		[
+			// One resolvable note still open keeps the thread unresolved
+			["d2", false, "dev"],
+			["d3", false, null],
+		],
+	);
+	const [d2] = threads;
+	assert.deepEqual(
+		[d2?.path, d2?.line, d2?.startLine, d2?.diffSide],
+		["src/a.ts", 12, 10, "RIGHT"],
+	);
+	assert.deepEqual(
+		d2?.comments.nodes.map((n) => [n.databaseId, n.replyTo?.databaseId]),
+		[
+			[3, undefined],
+			[5, 3],
+		],
+	);
+	assert.equal(d2?.comments.nodes[1]?.commit?.oid, "abc");
+
+	const resolved = discussionsToThreads(
+		[
+			{
+				id: "d4",
+				notes: [
+					note(6, {
+						type: "DiffNote",
+						position: POSITION,
+						resolvable: true,
+						resolved: true,
+					}),
+				],
+			},
+		],
+		noteUrl,
+	);
+	assert.equal(resolved[0]?.isResolved, true);
+}
+
+runStateTest();
+runMergeableTest();
+runLatestPipelineTest();
+runRestTest();
+runThreadsTest();
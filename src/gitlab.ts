@@ -0,0 +1,747 @@
+import { ciVerdict } from "./ci.js";
+import type { CacheStats } from "./etag-cache.js";
+import type { CiLookupOptions, ForgeProvider } from "./forge.js";
+import { DEFAULT_GITLAB_HOST, type ForgeHost, gitlabHost } from "./host.js";
+import {
+	createRateLimitTracker,
+	type RateLimitState,
+	type RateLimitTracker,
+} from "./ratelimit.js";
+import type {
+	Annotation,
+	CiJob,
+	CiRun,
+	CiStatus,
+	ExternalCheck,
+	IssueCommentRest,
+	Paged,
+	PrCommentItem,
+	PrFile,
+	PrLite,
+	RepoRef,
+	RestComments,
+	ReviewCommentRest,
+	ReviewThreadGql,
+	RunArtifact,
+	WorkflowRun,
+} from "./types.js";
+import { withRateLimitRetry } from "./util.js";
+
+const LIST_CAP = 1000;
+
+export interface GitLabOptions {
+	/** gitlab.com unless given (self-managed GitLab). */
+	host?: ForgeHost;
+}
+
+export interface GlNote {
+	id: number;
+	body: string;
+	author: { username: string } | null;
+	created_at: string;
+	updated_at: string | null;
+	system: boolean;
+	type: string | null; // DiffNote for line comments
+	resolvable?: boolean;
+	resolved?: boolean;
+	resolved_by?: { username: string } | null;
+	position?: {
+		head_sha?: string;
+		new_path?: string | null;
+		old_path?: string | null;
+		new_line?: number | null;
+		old_line?: number | null;
+		line_range?: { start?: { new_line?: number | null } } | null;
+	} | null;
+}
+
+export interface GlDiscussion {
+	id: string;
+	notes: GlNote[];
+}
+
+export interface GlPipeline {
+	id: number;
+	project_id: number;
+	sha: string;
+	ref: string;
+	status: string;
+	source?: string;
+	name?: string | null;
+	web_url: string;
+	created_at: string | null;
+	updated_at: string | null;
+}
+
+interface GlJob {
+	id: number;
+	name: string;
+	status: string;
+	allow_failure: boolean;
+	web_url: string;
+	artifacts?: { file_type: string; size: number }[];
+	artifacts_expire_at?: string | null;
+}
+
+/** GitLab statuses as GitHub's status/conclusion pair. */
+export function runState(
+	status: string,
+	allowFailure = false,
+): { status: string; conclusion: string | null } {
+	switch (status) {
+		case "success":
+			return { status: "completed", conclusion: "success" };
+		case "failed":
+			// "Passed with warnings": an allowed failure must not fail the verdict
+			return {
+				status: "completed",
+				conclusion: allowFailure ? "neutral" : "failure",
+			};
+		case "canceled":
+			return { status: "completed", conclusion: "cancelled" };
+		case "skipped":
+			return { status: "completed", conclusion: "skipped" };
+		case "manual":
+			return { status: "completed", conclusion: "action_required" };
+		case "running":
+			return { status: "in_progress", conclusion: null };
+		default:
+			return { status: "queued", conclusion: null };
+	}
+}
+
+/** GitLab's detailed merge status in GitHub's `mergeable_state` terms. */
+export function mergeableState(mr: {
+	detailed_merge_status?: string;
+	merge_status?: string;
+	has_conflicts?: boolean;
+}): string {
+	if (mr.has_conflicts) return "dirty";
+	switch (mr.detailed_merge_status) {
+		case "mergeable":
+			return "clean";
+		case "conflict":
+			return "dirty";
+		case "need_rebase":
+			return "behind";
+		case "draft_status":
+			return "draft";
+		case "ci_must_pass":
+		case "ci_still_running":
+			return "unstable";
+		case "checking":
+		case "unchecked":
+		case "preparing":
+		case undefined:
+			return mr.merge_status === "can_be_merged" ? "clean" : "unknown";
+		default:
+			return "blocked"; // approvals, open discussions, …
+	}
+}
+
+/**
+ * The pipeline the MR widget shows for a sha: the newest one. Older
+ * pipelines of the sha (retries, a branch pipeline next to the MR one) are
+ * superseded and must not hold the verdict at their old result.
+ */
+export function latestPipeline(pipelines: GlPipeline[]): GlPipeline | null {
+	let latest: GlPipeline | null = null;
+	for (const p of pipelines) if (!latest || p.id > latest.id) latest = p;
+	return latest;
+}
+
+/**
+ * MR discussions in the REST comment shape: diff discussions become review
+ * comments threaded by their first note, the rest issue comments.
+ */
+export function discussionsToRest(
+	discussions: GlDiscussion[],
+	noteUrl: (id: number) => string,
+	sinceIso: string,
+	{ fullThreads = true, includeReviewComments = true } = {},
+): Pick<RestComments, "issueComments" | "reviewComments"> {
+	const issueComments: IssueCommentRest[] = [];
+	const reviewComments: ReviewCommentRest[] = [];
+	for (const d of discussions) {
+		const notes = d.notes.filter((n) => !n.system);
+		const first = notes[0];
+		if (!first) continue;
+		const isNew = (n: GlNote) => n.created_at >= sinceIso;
+		const base = (n: GlNote): IssueCommentRest => ({
+			id: n.id,
+			body: n.body,
+			created_at: n.created_at,
+			updated_at: n.updated_at || undefined,
+			html_url: noteUrl(n.id),
+			user: n.author?.username || "unknown",
+		});
+		if (first.type !== "DiffNote") {
+			issueComments.push(...notes.filter(isNew).map(base));
+			continue;
+		}
+		if (!includeReviewComments) continue;
+		// Whole thread for context once any note in it is new
+		const keep = fullThreads && notes.some(isNew) ? notes : notes.filter(isNew);
+		for (const n of keep) {
+			const pos = n.position ?? first.position;
+			reviewComments.push({
+				...base(n),
+				path: pos?.new_path || pos?.old_path || "",
+				line: pos?.new_line ?? undefined,
+				start_line: pos?.line_range?.start?.new_line ?? undefined,
+				original_line: pos?.old_line ?? undefined,
+				side: pos?.new_line ? "RIGHT" : "LEFT",
+				commit_id: pos?.head_sha,
+				in_reply_to_id: n === first ? null : first.id,
+				thread_id: first.id,
+			});
+		}
+	}
+	return { issueComments, reviewComments };
+}
+
+/** Diff discussions with their resolved state, in the GraphQL thread shape. */
+export function discussionsToThreads(
+	discussions: GlDiscussion[],
+	noteUrl: (id: number) => string,
+): ReviewThreadGql[] {
+	const out: ReviewThreadGql[] = [];
+	for (const d of discussions) {
+		const notes = d.notes.filter((n) => !n.system);
+		const first = notes[0];
+		if (first?.type !== "DiffNote") continue;
+		const pos = first.position;
+		const resolvable = notes.filter((n) => n.resolvable);
+		const resolver = resolvable.find((n) => n.resolved_by)?.resolved_by;
+		out.push({
+			id: d.id,
+			isResolved: resolvable.length > 0 && resolvable.every((n) => n.resolved),
+			isOutdated: false, // not exposed by the API
+			path: pos?.new_path || pos?.old_path || "",
+			line: pos?.new_line ?? null,
+			startLine: pos?.line_range?.start?.new_line ?? null,
+			originalLine: pos?.old_line ?? null,
+			diffSide: pos?.new_line ? "RIGHT" : "LEFT",
+			resolvedBy: resolver ? { login: resolver.username } : null,
+			comments: {
+				nodes: notes.map((n) => ({
+					databaseId: n.id,
+					url: noteUrl(n.id),
+					body: n.body,
+					createdAt: n.created_at,
+					updatedAt: n.updated_at,
+					diffHunk: null,
+					author: n.author ? { login: n.author.username } : null,
+					commit: pos?.head_sha ? { oid: pos.head_sha } : null,
+					replyTo: n === first ? null : { databaseId: first.id },
+				})),
+			},
+		});
+	}
+	return out;
+}
+
+/**
+ * ForgeProvider for GitLab (API v4): merge requests stand in for PRs,
+ * pipelines for workflow runs and MR discussions for review threads.
+ */
+export class GitLab implements ForgeProvider {
+	readonly kind = "gitlab";
+	readonly host: ForgeHost;
+	private token?: string;
+	private rate: RateLimitTracker;
+	constructor(token?: string, opts: GitLabOptions = {}) {
+		this.host = opts.host ?? gitlabHost(DEFAULT_GITLAB_HOST);
+		this.token = token;
+		this.rate = createRateLimitTracker();
+	}
+
+	/** No conditional-request cache for GitLab: counters stay at zero. */
+	cacheStats(): CacheStats {
+		return { hits: 0, misses: 0, entries: 0 };
+	}
+
+	webUrl(pathname: string): string {
+		return `${this.host.webUrl}/${pathname.replace(/^\/+/, "")}`;
+	}
+
+	rateLimit(): RateLimitState {
+		return this.rate.state();
+	}
+
+	private project(ref: RepoRef): string {
+		return `/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}`;
+	}
+
+	/**
+	 * One API call; quota headers are recorded and short 429s retried like
+	 * GitHub's secondary limits. Errors carry `status` and `response.headers`.
+	 */
+	private async call(
+		pathname: string,
+		query: Record<string, string | number | boolean | undefined> = {},
+		method = "GET",
+	): Promise<Response> {
+		const url = new URL(`${this.host.apiBaseUrl}${pathname}`);
+		for (const [k, v] of Object.entries(query)) {
+			if (v !== undefined) url.searchParams.set(k, String(v));
+		}
+		return withRateLimitRetry(async () => {
+			const res = await fetch(url, {
+				method,
+				headers: this.token ? { "PRIVATE-TOKEN": this.token } : {},
+			});
+			const headers: Record<string, string | undefined> = {
+				"x-ratelimit-limit": res.headers.get("ratelimit-limit") ?? undefined,
+				"x-ratelimit-remaining":
+					res.headers.get("ratelimit-remaining") ?? undefined,
+				"x-ratelimit-reset": res.headers.get("ratelimit-reset") ?? undefined,
+				"retry-after": res.headers.get("retry-after") ?? undefined,
+			};
+			this.rate.record(headers, res.status);
+			if (!res.ok) {
+				const body = await res.text().catch(() => "");
+				throw Object.assign(
+					new Error(
+						`GitLab ${method} ${url.pathname} failed: ${res.status} ${body.slice(0, 200)}`,
+					),
+					{ status: res.status, response: { headers } },
+				);
+			}
+			return res;
+		});
+	}
+
+	private async get<T>(
+		pathname: string,
+		query: Record<string, string | number | boolean | undefined> = {},
+	): Promise<T> {
+		return (await (await this.call(pathname, query)).json()) as T;
+	}
+
+	/** Follow `x-next-page` until the list is exhausted or `cap` items are in. */
+	private async collect<T>(
+		pathname: string,
+		query: Record<string, string | number | boolean | undefined>,
+		cap: number,
+	): Promise<Paged<T>> {
+		const items: T[] = [];
+		let page: string | null = "1";
+		while (page) {
+			const res = await this.call(pathname, {
+				...query,
+				per_page: 100,
+				page,
+			});
+			for (const item of (await res.json()) as T[]) {
+				if (items.length >= cap) return { items, truncated: true };
+				items.push(item);
+			}
+			page = res.headers.get("x-next-page") || null;
+		}
+		return { items, truncated: false };
+	}
+
+	private mrUrl(ref: RepoRef, iid: number): string {
+		return this.webUrl(`${ref.owner}/${ref.repo}/-/merge_requests/${iid}`);
+	}
+
+	/**
+	 * MRs from forks are listed on the target project; only one from the
+	 * source project counts, since other forks may use the same branch name.
+	 */
+	async findOpenPrForBranch(
+		ref: RepoRef,
+		head: RepoRef,
+		branch: string,
+	): Promise<number | null> {
+		try {
+			const data = await this.get<{ iid: number; source_project_id: number }[]>(
+				`${this.project(ref)}/merge_requests`,
+				{ state: "opened", source_branch: branch, per_page: 100 },
+			);
+			const source = await this.get<{ id: number }>(this.project(head));
+			const match = data.find((mr) => mr.source_project_id === source.id);
+			return match?.iid ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	async findPrBySha(ref: RepoRef, sha: string): Promise<number | null> {
+		try {
+			const data = await this.get<{ iid: number; state: string }[]>(
+				`${this.project(ref)}/repository/commits/${sha}/merge_requests`,
+			);
+			return (data.find((mr) => mr.state === "opened") ?? data[0])?.iid ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	async getPrLite(ref: RepoRef, pr: number): Promise<PrLite> {
+		const mr = await this.get<{
+			sha: string;
+			target_branch: string;
+			web_url: string;
+			detailed_merge_status?: string;
+			merge_status?: string;
+			has_conflicts?: boolean;
+			diff_refs?: { start_sha?: string | null } | null;
+		}>(`${this.project(ref)}/merge_requests/${pr}`);
+		return {
+			mergeable_state: mergeableState(mr),
+			headSha: mr.sha,
+			baseRef: mr.target_branch,
+			// Target branch tip the current diff was computed against
+			baseSha: mr.diff_refs?.start_sha ?? null,
+			html_url: mr.web_url,
+		};
+	}
+
+	async prFiles(ref: RepoRef, pr: number, cap = 3000): Promise<Paged<PrFile>> {
+		const res = await this.collect<{
+			new_path: string;
+			new_file: boolean;
+			deleted_file: boolean;
+			renamed_file: boolean;
+			diff: string;
+		}>(`${this.project(ref)}/merge_requests/${pr}/diffs`, {}, cap);
+		return {
+			items: res.items.map((d) => {
+				const lines = d.diff.split("\n");
+				const additions = lines.filter(
+					(l) => l.startsWith("+") && !l.startsWith("+++"),
+				).length;
+				const deletions = lines.filter(
+					(l) => l.startsWith("-") && !l.startsWith("---"),
+				).length;
+				return {
+					filename: d.new_path,
+					status: d.new_file
+						? "added"
+						: d.deleted_file
+							? "removed"
+							: d.renamed_file
+								? "renamed"
+								: "modified",
+					additions,
+					changes: additions + deletions,
+				};
+			}),
+			truncated: res.truncated,
+		};
+	}
+
+	/** Non-system MR notes, oldest first; with `sinceIso` only newer ones. */
+	private async listPrCommentItems(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string | null,
+	): Promise<Paged<PrCommentItem>> {
+		const res = await this.collect<GlNote>(
+			`${this.project(ref)}/merge_requests/${pr}/notes`,
+			{ sort: "asc", order_by: "created_at" },
+			LIST_CAP,
+		).catch(() => ({ items: [] as GlNote[], truncated: false }));
+		const items = res.items
+			.filter((n) => !n.system && !(sinceIso && n.created_at <= sinceIso))
+			.map((n) => ({
+				author: n.author?.username || "unknown",
+				createdAt: n.created_at,
+				body: n.body,
+				url: `${this.mrUrl(ref, pr)}#note_${n.id}`,
+			}));
+		return { items, truncated: res.truncated };
+	}
+
+	async listCommentsSince(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string,
+		cap = 30,
+	): Promise<Paged<PrCommentItem>> {
+		const all = await this.listPrCommentItems(ref, pr, sinceIso);
+		return {
+			items: all.items.slice(0, cap),
+			truncated: all.truncated || all.items.length > cap,
+		};
+	}
+
+	async listCommentsRecent(
+		ref: RepoRef,
+		pr: number,
+		cap = 100,
+	): Promise<Paged<PrCommentItem>> {
+		const all = await this.listPrCommentItems(ref, pr, null);
+		return {
+			items: all.items.slice(-cap),
+			truncated: all.truncated || all.items.length > cap,
+		};
+	}
+
+	private discussions(
+		ref: RepoRef,
+		pr: number,
+		cap: number,
+	): Promise<Paged<GlDiscussion>> {
+		return this.collect<GlDiscussion>(
+			`${this.project(ref)}/merge_requests/${pr}/discussions`,
+			{},
+			cap,
+		);
+	}
+
+	/**
+	 * MR discussions in the REST comment shape: diff discussions become review
+	 * comments threaded by their first note, the rest issue comments. GitLab
+	 * has no review summaries, so `reviews` is always empty.
+	 */
+	async listCommentsRest(
+		ref: RepoRef,
+		pr: number,
+		sinceIso: string,
+		cap = 1000,
+		fullThreads = true,
+		includeReviewComments = true,
+	): Promise<RestComments> {
+		const res = await this.discussions(ref, pr, cap).catch(() => ({
+			items: [] as GlDiscussion[],
+			truncated: false,
+		}));
+		return {
+			...discussionsToRest(
+				res.items,
+				(id) => `${this.mrUrl(ref, pr)}#note_${id}`,
+				sinceIso,
+				{ fullThreads, includeReviewComments },
+			),
+			reviews: [],
+			truncated: res.truncated,
+		};
+	}
+
+	/** Diff discussions with their resolved state, in the GraphQL thread shape. */
+	async listReviewThreads(
+		ref: RepoRef,
+		pr: number,
+		maxThreads = 500,
+	): Promise<Paged<ReviewThreadGql>> {
+		const res = await this.discussions(ref, pr, LIST_CAP);
+		const out = discussionsToThreads(
+			res.items,
+			(id) => `${this.mrUrl(ref, pr)}#note_${id}`,
+		);
+		return {
+			items: out.slice(0, maxThreads),
+			truncated: res.truncated || out.length > maxThreads,
+		};
+	}
+
+	/**
+	 * The latest pipeline for a sha and its verdict. External CI reporting
+	 * commit statuses shows up as pipeline jobs on GitLab, so `checks` stays
+	 * empty.
+	 */
+	async latestCiForSha(
+		ref: RepoRef,
+		sha: string,
+		{ cap = 200 }: CiLookupOptions = {},
+	): Promise<CiStatus> {
+		const res = await this.collect<GlPipeline>(
+			`${this.project(ref)}/pipelines`,
+			{ sha },
+			cap,
+		);
+		const latest = latestPipeline(res.items);
+		const runs: CiRun[] = (latest ? [latest] : []).map((p) => ({
+			id: p.id,
+			url: p.web_url,
+			...runState(p.status),
+			createdAt: p.created_at ?? p.updated_at ?? null,
+			attempt: 1, // retries re-run jobs inside the same pipeline
+			workflowId: p.project_id,
+		}));
+		return {
+			conclusion: ciVerdict(runs, []),
+			runs,
+			checks: [],
+			truncated: res.truncated,
+		};
+	}
+
+	async listExternalChecks(): Promise<Paged<ExternalCheck>> {
+		return { items: [], truncated: false };
+	}
+
+	/**
+	 * Pipelines created since `sinceIso`, optionally for one branch. A project
+	 * has one pipeline definition, so its id doubles as the workflow id and
+	 * `workflowId` filters nothing. Failures yield an empty list.
+	 */
+	async listWorkflowRunsSince(
+		ref: RepoRef,
+		branch: string | null,
+		sinceIso: string,
+		cap = 300,
+	): Promise<Paged<WorkflowRun>> {
+		try {
+			const res = await this.collect<GlPipeline>(
+				`${this.project(ref)}/pipelines`,
+				{
+					...(branch ? { ref: branch } : {}),
+					updated_after: sinceIso,
+					order_by: "id",
+					sort: "desc",
+				},
+				cap,
+			);
+			return {
+				items: res.items
+					.filter((p) => !p.created_at || p.created_at >= sinceIso)
+					.map((p) => ({
+						id: p.id,
+						url: p.web_url,
+						...runState(p.status),
+						createdAt: p.created_at ?? p.updated_at ?? null,
+						name: p.name || p.source || null,
+						headSha: p.sha,
+						headBranch: p.ref,
+						workflowId: p.project_id,
+					})),
+				truncated: res.truncated,
+			};
+		} catch {
+			return { items: [], truncated: false };
+		}
+	}
+
+	private pipelineJobs(
+		ref: RepoRef,
+		pipelineId: number,
+		cap: number,
+	): Promise<Paged<GlJob>> {
+		return this.collect<GlJob>(
+			`${this.project(ref)}/pipelines/${pipelineId}/jobs`,
+			{},
+			cap,
+		);
+	}
+
+	async listJobsForRun(
+		ref: RepoRef,
+		runId: number,
+		cap = 500,
+	): Promise<Paged<CiJob>> {
+		const res = await this.pipelineJobs(ref, runId, cap);
+		return {
+			items: res.items.map((job) => ({
+				id: job.id,
+				name: job.name,
+				html_url: job.web_url,
+				...runState(job.status, job.allow_failure),
+			})),
+			truncated: res.truncated,
+		};
+	}
+
+	async fetchJobLog(ref: RepoRef, jobId: number): Promise<string> {
+		const res = await this.call(`${this.project(ref)}/jobs/${jobId}/trace`);
+		return res.text();
+	}
+
+	/** Retry the failed jobs of a pipeline, in place. */
+	async rerunFailedJobs(ref: RepoRef, runId: number): Promise<void> {
+		await this.call(
+			`${this.project(ref)}/pipelines/${runId}/retry`,
+			{},
+			"POST",
+		);
+	}
+
+	async listAnnotations(): Promise<Paged<Annotation>> {
+		return { items: [], truncated: false };
+	}
+
+	/**
+	 * Artifact archives of a pipeline's jobs. GitLab keeps artifacts per job,
+	 * so each is named and identified after its job.
+	 */
+	async listRunArtifacts(
+		ref: RepoRef,
+		runId: number,
+		cap = 100,
+	): Promise<Paged<RunArtifact>> {
+		const res = await this.pipelineJobs(ref, runId, LIST_CAP);
+		const items: RunArtifact[] = [];
+		for (const job of res.items) {
+			const archive = job.artifacts?.find((a) => a.file_type === "archive");
+			if (!archive) continue;
+			items.push({
+				id: job.id,
+				name: job.name,
+				sizeInBytes: archive.size,
+				expired:
+					!!job.artifacts_expire_at &&
+					Date.parse(job.artifacts_expire_at) < Date.now(),
+			});
+		}
+		return {
+			items: items.slice(0, cap),
+			truncated: res.truncated || items.length > cap,
+		};
+	}
+
+	async downloadArtifact(ref: RepoRef, artifactId: number): Promise<Buffer> {
+		const res = await this.call(
+			`${this.project(ref)}/jobs/${artifactId}/artifacts`,
+		);
+		return Buffer.from(await res.arrayBuffer());
+	}
+
+	async getBranchSha(ref: RepoRef, branch: string): Promise<string | null> {
+		try {
+			const data = await this.get<{ commit?: { id: string } }>(
+				`${this.project(ref)}/repository/branches/${encodeURIComponent(branch)}`,
+			);
+			return data.commit?.id ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	async getCommitDate(ref: RepoRef, sha: string): Promise<string | null> {
+		try {
+			const data = await this.get<{
+				committed_date?: string;
+				authored_date?: string;
+			}>(`${this.project(ref)}/repository/commits/${sha}`);
+			return data.committed_date || data.authored_date || null;
+		} catch {
+			return null;
+		}
+	}
+
+	async defaultBranch(ref: RepoRef): Promise<string | null> {
+		try {
+			const data = await this.get<{ default_branch?: string }>(
+				this.project(ref),
+			);
+			return data.default_branch ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	async branchesForCommit(ref: RepoRef, sha: string): Promise<string[] | null> {
+		try {
+			const data = await this.get<{ type: string; name: string }[]>(
+				`${this.project(ref)}/repository/commits/${sha}/refs`,
+				{ type: "branch", per_page: 100 },
+			);
+			return data.map((r) => r.name).filter(Boolean);
+		} catch {
+			return null;
+		}
+	}
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+
+import { classifyFailures, extractFailingTests } from "./history.js";
+
+function runExtractTest() {
+	const pytest = [
+		"2024-05-01T10:00:00.1234567Z ============================= test session starts ==============================",
+		"2024-05-01T10:00:01.1234567Z =========================== short test summary info ============================",
+		// Colored summary lines are only found once the escapes are stripped
+		"2024-05-01T10:00:01.1234567Z \u001b[31mFAILED\u001b[0m tests/test_a.py::test_x[1] - AssertionError",
+		"2024-05-01T10:00:01.1234567Z FAILED tests/test_a.py::test_y - KeyError",
+		"2024-05-01T10:00:01.1234567Z FAILED tests/test_a.py::test_x[1] - repeated",
+	].join("\n");
+	assert.deepEqual(
+		extractFailingTests(pytest),
+		["tests/test_a.py::test_x[1]", "tests/test_a.py::test_y"],
+		"extractFailingTests should find colored pytest ids once each",
+	);
+	const go = [
+		"=== RUN   TestFoo",
+		"    foo_test.go:9: boom",
+		"--- FAIL: TestFoo (0.00s)",
+		"FAIL",
+	].join("\n");
+	const cargo = [
+		"running 1 test",
+		"test parser::tests::bad ... FAILED",
+		"",
+		"failures:",
+		"",
+		"---- parser::tests::bad stdout ----",
+		"thread 'parser::tests::bad' panicked at src/parser.rs:40:5:",
+		"boom",
+		"",
+		"failures:",
+		"    parser::tests::bad",
+		"",
+		"test result: FAILED. 0 passed; 1 failed; 0 ignored",
+	].join("\n");
+	assert.deepEqual(
+		[go, cargo].map(extractFailingTests),
+		[["TestFoo"], ["parser::tests::bad"]],
+		"extractFailingTests should use the go and cargo parsers",
+	);
+}
+
+function runClassifyTest() {
+	const samples = [
+		{ branch: "main", failedTests: new Set(["TestFoo"]) },
+		{ branch: "feat-x", failedTests: new Set(["TestBar", "TestFoo"]) },
+		{ branch: "feat-y", failedTests: new Set<string>() },
+	];
+	const labels = classifyFailures(
+		["TestFoo", "TestBar", "TestNew"],
+		samples,
+		"main",
+	).map((h) => h.label);
+	assert.deepEqual(
+		labels,
+		[
+			"also failing on main",
+			"intermittent (1/3 recent runs)",
+			"new in this PR",
+		],
+		"classifyFailures should prefer default-branch failures, then history",
+	);
+	assert.deepEqual(
+		classifyFailures(["TestFoo"], [], "main"),
+		[],
+		"classifyFailures should not call anything new without sampled runs",
+	);
+}
+
+runExtractTest();
+runClassifyTest();
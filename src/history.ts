@@ -0,0 +1,129 @@
+import type { ForgeProvider } from "./forge.js";
+import { normalizeLog } from "./normalize.js";
+import { scanLog } from "./parsers.js";
+import type { RepoRef, TestHistory } from "./types.js";
+
+const FAILURE_LIKE = new Set(["failure", "timed_out", "cancelled"]);
+const MAX_HISTORY_LOGS = 20; // failing job logs fetched across sampled runs
+
+/**
+ * Failing test identifiers in a raw job log (deduplicated, in order), as the
+ * parser registry reads them once the log is normalized.
+ */
+export function extractFailingTests(log: string): string[] {
+	const { failures } = scanLog(normalizeLog(log));
+	return Array.from(new Set(failures.map((f) => f.name)));
+}
+
+/**
+ * Label each current failure against sampled runs from other branches:
+ * failing on the default branch wins, then any earlier failure counts as
+ * intermittent, otherwise the failure is new. Without samples there is no
+ * evidence either way, so nothing is labelled.
+ */
+export function classifyFailures(
+	tests: string[],
+	samples: { branch: string | null; failedTests: Set<string> }[],
+	defaultBranch: string,
+): TestHistory[] {
+	if (!samples.length) return [];
+	return tests.map((test) => {
+		const hits = samples.filter((s) => s.failedTests.has(test));
+		const base = { test, failedRuns: hits.length, sampledRuns: samples.length };
+		if (hits.some((s) => s.branch === defaultBranch))
+			return {
+				...base,
+				origin: "default_branch",
+				label: `also failing on ${defaultBranch}`,
+			};
+		if (hits.length)
+			return {
+				...base,
+				origin: "intermittent",
+				label: `intermittent (${hits.length}/${samples.length} recent runs)`,
+			};
+		return { ...base, origin: "new", label: "new in this PR" };
+	});
+}
+
+/**
+ * Look up the current failing tests in recent runs of the same workflows on
+ * other branches (default branch included) and label where each one comes from.
+ */
+export async function analyzeFailureHistory(
+	gh: ForgeProvider,
+	ref: RepoRef,
+	args: {
+		branch: string;
+		runs: { id: number; workflowId?: number | null }[];
+		logs: { text: string }[];
+		maxRuns?: number;
+		lookbackDays?: number;
+	},
+): Promise<TestHistory[]> {
+	const maxRuns = args.maxRuns ?? 10;
+	const tests = Array.from(
+		new Set(args.logs.flatMap((l) => extractFailingTests(l.text))),
+	);
+	if (!tests.length || maxRuns <= 0) return [];
+
+	const defaultBranch = (await gh.defaultBranch(ref)) || "main";
+	const sinceIso = new Date(
+		Date.now() - (args.lookbackDays ?? 14) * 86400 * 1000,
+	)
+		.toISOString()
+		.slice(0, 10);
+	const currentIds = new Set(args.runs.map((r) => r.id));
+	const workflowIds = new Set(
+		args.runs.map((r) => r.workflowId).filter((w): w is number => !!w),
+	);
+
+	const candidates: {
+		id: number;
+		conclusion: string | null;
+		createdAt: string | null;
+		headBranch: string | null;
+	}[] = [];
+	for (const wf of workflowIds) {
+		const runs = await gh.listWorkflowRunsSince(ref, null, sinceIso, 100, wf);
+		candidates.push(
+			...runs.items.filter(
+				(r) =>
+					r.status === "completed" &&
+					!currentIds.has(r.id) &&
+					r.headBranch !== args.branch,
+			),
+		);
+	}
+	candidates.sort((a, b) =>
+		(b.createdAt || "").localeCompare(a.createdAt || ""),
+	);
+	const sampled = candidates.slice(0, maxRuns);
+	if (!sampled.length) return [];
+
+	let logBudget = MAX_HISTORY_LOGS;
+	const samples: { branch: string | null; failedTests: Set<string> }[] = [];
+	for (const run of sampled) {
+		const failedTests = new Set<string>();
+		if (run.conclusion && FAILURE_LIKE.has(run.conclusion)) {
+			// Failing runs whose logs were not read would skew N/M; leave them out
+			if (logBudget <= 0) continue;
+			const jobs = await gh
+				.listJobsForRun(ref, run.id)
+				.catch(() => ({ items: [], truncated: false }));
+			for (const j of jobs.items) {
+				if (!j.conclusion || !FAILURE_LIKE.has(j.conclusion)) continue;
+				if (logBudget-- <= 0) break;
+				const text = await gh.fetchJobLog(ref, j.id).catch(() => "");
+				for (const t of extractFailingTests(text)) failedTests.add(t);
+			}
+		}
+		samples.push({ branch: run.headBranch, failedTests });
+	}
+	return classifyFailures(tests, samples, defaultBranch);
+}
+
+/** Markdown bullets, one per failing test, for reports and agent payloads. */
+export function formatFailureHistory(history: TestHistory[]): string {
+	return history.map((h) => `- \`${h.test}\` — ${h.label}`).join("\n");
+}
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { resolveForgeHost } from "./host.js";
+
+async function repoWithOrigin(root: string, name: string, url: string) {
+	const dir = path.join(root, name);
+	await fs.mkdir(dir);
+	execFileSync("git", ["init", "-q"], { cwd: dir });
+	execFileSync("git", ["remote", "add", "origin", url], { cwd: dir });
+	return dir;
+}
+
+async function withEnv<T>(
+	env: Record<string, string | undefined>,
+	fn: () => Promise<T>,
+): Promise<T> {
+	const saved = Object.fromEntries(
+		Object.keys(env).map((k) => [k, process.env[k]]),
+	);
+	const set = (vars: Record<string, string | undefined>) => {
+		for (const [k, v] of Object.entries(vars)) {
+			if (v === undefined) delete process.env[k];
+			else process.env[k] = v;
+		}
+	};
+	set(env);
+	try {
+		return await fn();
+	} finally {
+		set(saved);
+	}
+}
+
+const NO_ENV = { GH_HOST: undefined, GITLAB_HOST: undefined };
+
+async function runGithubTest(root: string) {
+	const dotcom = await repoWithOrigin(root, "dotcom", "git@github.com:o/r.git");
+	const ghes = await repoWithOrigin(
+		root,
+		"ghes",
+		"https://GHE.example.com/o/r.git",
+	);
+	const none = path.join(root, "none");
+	await fs.mkdir(none);
+
+	await withEnv(NO_ENV, async () => {
+		assert.deepEqual(await resolveForgeHost({}, dotcom), {
+			kind: "github",
+			host: "github.com",
+			apiBaseUrl: "https://api.github.com",
+			webUrl: "https://github.com",
+		});
+		// GHES from the origin host: REST lives under /api/v3
+		const fromOrigin = await resolveForgeHost({}, ghes);
+		assert.equal(fromOrigin.host, "ghe.example.com");
+		assert.equal(fromOrigin.apiBaseUrl, "https://ghe.example.com/api/v3");
+		// No remote at all
+		assert.equal((await resolveForgeHost({}, none)).host, "github.com");
+	});
+
+	// GH_HOST beats the origin remote, as in the gh CLI
+	await withEnv({ ...NO_ENV, GH_HOST: "ghe.corp.dev" }, async () => {
+		const h = await resolveForgeHost({}, dotcom);
+		assert.equal(h.host, "ghe.corp.dev");
+		assert.equal(h.apiBaseUrl, "https://ghe.corp.dev/api/v3");
+
+		// ...and config beats both; the host is taken from the API base URL
+		const api = await resolveForgeHost(
+			{ apiBaseUrl: "https://api.ghe.example.com/v3/" },
+			dotcom,
+		);
+		assert.deepEqual(
+			[api.host, api.apiBaseUrl, api.webUrl],
+			[
+				"api.ghe.example.com",
+				"https://api.ghe.example.com/v3",
+				"https://api.ghe.example.com",
+			],
+		);
+		const explicit = await resolveForgeHost(
+			{ host: "ghe.example.com", apiBaseUrl: "https://ghe.example.com/api/v3" },
+			dotcom,
+		);
+		assert.equal(explicit.host, "ghe.example.com");
+		// api.github.com is github.com
+		const dotcomApi = await resolveForgeHost(
+			{ apiBaseUrl: "https://api.github.com" },
+			ghes,
+		);
+		assert.equal(dotcomApi.host, "github.com");
+	});
+}
+
+async function runGitlabTest(root: string) {
+	const gl = await repoWithOrigin(
+		root,
+		"gl",
+		"git@gitlab.example.com:group/sub/r.git",
+	);
+	await withEnv(NO_ENV, async () => {
+		assert.deepEqual(await resolveForgeHost({}, gl), {
+			kind: "gitlab",
+			host: "gitlab.example.com",
+			apiBaseUrl: "https://gitlab.example.com/api/v4",
+			webUrl: "https://gitlab.example.com",
+		});
+	});
+	await withEnv(
+		{ ...NO_ENV, GITLAB_HOST: "https://gitlab.corp.dev" },
+		async () => {
+			assert.equal((await resolveForgeHost({}, gl)).host, "gitlab.corp.dev");
+		},
+	);
+	// GH_HOST never applies to GitLab
+	await withEnv({ ...NO_ENV, GH_HOST: "ghe.corp.dev" }, async () => {
+		assert.equal((await resolveForgeHost({}, gl)).host, "gitlab.example.com");
+	});
+	// An explicit forge wins over the host name
+	await withEnv(NO_ENV, async () => {
+		const h = await resolveForgeHost(
+			{ forge: "gitlab", host: "code.corp" },
+			gl,
+		);
+		assert.deepEqual(
+			[h.kind, h.apiBaseUrl],
+			["gitlab", "https://code.corp/api/v4"],
+		);
+	});
+}
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "awt-host-"));
+try {
+	await runGithubTest(root);
+	await runGitlabTest(root);
+} finally {
+	await fs.rm(root, { recursive: true, force: true });
+}
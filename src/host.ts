@@ -0,0 +1,85 @@
+import { originOwnerRepo } from "./git.js";
+import type { WatchConfig } from "./types.js";
+
+export const DEFAULT_HOST = "github.com";
+export const DEFAULT_GITLAB_HOST = "gitlab.com";
+
+export type ForgeKind = "github" | "gitlab";
+
+/** Display names, for notifications. */
+export const FORGE_NAMES: Record<ForgeKind, string> = {
+	github: "GitHub",
+	gitlab: "GitLab",
+};
+
+/** Where the repo lives: forge, web host plus REST base URL. */
+export interface ForgeHost {
+	kind: ForgeKind;
+	host: string; // e.g. github.com, ghe.example.com, gitlab.example.com
+	apiBaseUrl: string; // REST root; GitHub's GraphQL is derived from it by Octokit
+	webUrl: string; // https://<host>, for links in reports
+}
+
+export function githubHost(host: string, apiBaseUrl?: string): ForgeHost {
+	const h = host.toLowerCase();
+	const api =
+		apiBaseUrl ||
+		(h === DEFAULT_HOST ? "https://api.github.com" : `https://${h}/api/v3`);
+	return {
+		kind: "github",
+		host: h,
+		apiBaseUrl: api.replace(/\/+$/, ""),
+		webUrl: `https://${h}`,
+	};
+}
+
+export function gitlabHost(host: string, apiBaseUrl?: string): ForgeHost {
+	const h = host.toLowerCase();
+	return {
+		kind: "gitlab",
+		host: h,
+		apiBaseUrl: (apiBaseUrl || `https://${h}/api/v4`).replace(/\/+$/, ""),
+		webUrl: `https://${h}`,
+	};
+}
+
+function hostOfUrl(url: string): string | null {
+	try {
+		const h = new URL(url).host.toLowerCase();
+		return h === "api.github.com" ? DEFAULT_HOST : h;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Pick the forge and its host: `apiBaseUrl`/`host` from config, then
+ * `GH_HOST` / `GITLAB_HOST` (as the `gh` and `glab` CLIs do), then the host
+ * of the origin remote. The forge is `cfg.forge`, else GitLab when the host
+ * name contains "gitlab", else GitHub.
+ */
+export async function resolveForgeHost(
+	cfg: WatchConfig,
+	cwd: string,
+): Promise<ForgeHost> {
+	const configured =
+		cfg.host || (cfg.apiBaseUrl && hostOfUrl(cfg.apiBaseUrl)) || null;
+	const origin = await originOwnerRepo(cwd).then(
+		(o) => o.host,
+		() => null,
+	);
+	const kind =
+		cfg.forge ??
+		(/gitlab/i.test(configured || origin || "") ? "gitlab" : "github");
+	if (kind === "gitlab") {
+		const envHost = process.env.GITLAB_HOST;
+		const host =
+			configured ||
+			(envHost && (hostOfUrl(envHost) ?? envHost)) ||
+			origin ||
+			DEFAULT_GITLAB_HOST;
+		return gitlabHost(host, cfg.apiBaseUrl);
+	}
+	const host = configured || process.env.GH_HOST || origin || DEFAULT_HOST;
+	return githubHost(host, cfg.apiBaseUrl);
+}
@@ -1,6 +1,7 @@
 import { spawn } from "node:child_process";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
+import type { Engine } from "./types.js";
 
 yargs(hideBin(process.argv))
 	.scriptName("awt-ci")
@@ -11,9 +12,13 @@ yargs(hideBin(process.argv))
 			y
 				.option("wt", {
 					type: "string",
-					demandOption: true,
 					desc: "worktree name",
 				})
+				.option("all", {
+					type: "boolean",
+					default: false,
+					desc: "watch every worktree under ~/.worktrees/<repo>/ from one process",
+				})
 				.option("engine", {
 					choices: ["claude", "gemini"] as const,
 					default: "claude",
@@ -26,20 +31,34 @@ yargs(hideBin(process.argv))
 				.option("poll-sec-idle", { type: "number", default: 60 })
 				.option("poll-sec-post-push", { type: "number", default: 20 })
 				.option("event-mode", { type: "boolean", default: false })
+				.option("replace", {
+					type: "boolean",
+					default: false,
+					desc: "take over from a watcher already running for this worktree",
+				})
 				.option("foreground", {
 					type: "boolean",
 					default: false,
 					desc: "run in foreground (no detach)",
+				})
+				.check((a) => {
+					if (!a.wt && !a.all) throw new Error("Pass --wt <name> or --all");
+					if (a.wt && a.all) throw new Error("--wt and --all are exclusive");
+					if (a.all && a["event-mode"])
+						throw new Error("--event-mode requires a single --wt");
+					return true;
 				}),
 		async (argv) => {
 			const {
 				wt,
+				all,
 				engine,
 				mux,
 				idleSec,
 				pollSecIdle,
 				pollSecPostPush,
 				eventMode,
+				replace,
 				foreground,
 			} = argv;
 
@@ -49,6 +68,19 @@ yargs(hideBin(process.argv))
 
 			// Detach by default unless explicitly in event mode or foreground
 			if (!eventMode && !foreground) {
+				// Fail fast here: the detached child cannot report that it lost the lock
+				if (wt && !replace) {
+					const { repoRoot } = await import("./git.js");
+					const { readLiveLock } = await import("./lock.js");
+					const holder = await readLiveLock(await repoRoot(), wt);
+					if (holder) {
+						console.error(
+							`A watcher for worktree '${wt}' is already running (pid ${holder.pid}). Use --replace to take over.`,
+						);
+						process.exitCode = 1;
+						return;
+					}
+				}
 				const node = process.execPath;
 				const script = process.argv[1] || new URL(import.meta.url).pathname;
 				const args: readonly string[] = [
@@ -69,14 +101,137 @@ yargs(hideBin(process.argv))
 				return;
 			}
 
+			if (all) {
+				const { superviseAll } = await import("./supervisor.js");
+				await superviseAll({
+					engine: engine as Engine,
+					idleSec,
+					pollSecIdle,
+					pollSecPostPush,
+					replace,
+				});
+				return;
+			}
+
+			// .check() above guarantees --wt whenever --all is absent
+			if (!wt) throw new Error("Pass --wt <name> or --all");
 			const { watch } = await import("./watch.js");
 			await watch({
 				worktree: wt,
-				engine,
+				engine: engine as Engine,
 				idleSec,
 				pollSecIdle,
 				pollSecPostPush,
 				eventMode,
+				replace,
+			});
+		},
+	)
+	.command(
+		"status",
+		"Show running watchers: worktree, branch, PR, last CI, last paste, last error",
+		(y) =>
+			y
+				.option("wt", { type: "string", desc: "only this worktree" })
+				.option("json", {
+					type: "boolean",
+					default: false,
+					desc: "print raw JSON",
+				}),
+		async (argv) => {
+			const { runStatus } = await import("./status.js");
+			await runStatus({ wt: argv.wt, json: argv.json });
+		},
+	)
+	.command(
+		"stop",
+		"Stop the watcher for a worktree (or all watchers of this repo)",
+		(y) =>
+			y
+				.option("wt", { type: "string", desc: "worktree name" })
+				.option("all", { type: "boolean", default: false })
+				.check((a) => {
+					if (!a.wt && !a.all) throw new Error("Pass --wt <name> or --all");
+					return true;
+				}),
+		async (argv) => {
+			const { runStop } = await import("./status.js");
+			await runStop({ wt: argv.wt, all: argv.all });
+		},
+	)
+	.command(
+		"restart",
+		"Restart the watcher for a worktree (or all watchers of this repo)",
+		(y) =>
+			y
+				.option("wt", { type: "string", desc: "worktree name" })
+				.option("all", { type: "boolean", default: false })
+				.check((a) => {
+					if (!a.wt && !a.all) throw new Error("Pass --wt <name> or --all");
+					return true;
+				}),
+		async (argv) => {
+			const { runRestart } = await import("./status.js");
+			await runRestart({ wt: argv.wt, all: argv.all });
+		},
+	)
+	.command(
+		"logs",
+		"Show a watcher's event log (.awt/logs/<worktree>.jsonl)",
+		(y) =>
+			y
+				.option("wt", {
+					type: "string",
+					demandOption: true,
+					desc: "worktree name",
+				})
+				.option("follow", {
+					alias: "f",
+					type: "boolean",
+					default: false,
+					desc: "keep printing new events",
+				})
+				.option("lines", {
+					alias: "n",
+					type: "number",
+					desc: "only the last N events",
+				})
+				.option("json", {
+					type: "boolean",
+					default: false,
+					desc: "print raw JSONL",
+				}),
+		async (argv) => {
+			const { runLogs } = await import("./logs.js");
+			await runLogs({
+				wt: argv.wt,
+				follow: argv.follow,
+				lines: argv.lines,
+				json: argv.json,
+			});
+		},
+	)
+	.command(
+		"serve",
+		"Receive GitHub webhooks locally and wake the matching watchers",
+		(y) =>
+			y
+				.option("port", { type: "number", default: 8787 })
+				.option("host", {
+					type: "string",
+					default: "127.0.0.1",
+					desc: "bind address (put a tunnel or proxy in front for GitHub)",
+				})
+				.option("secret", {
+					type: "string",
+					desc: "webhook secret (defaults to AWT_WEBHOOK_SECRET)",
+				}),
+		async (argv) => {
+			const { runServe } = await import("./serve.js");
+			await runServe({
+				port: argv.port,
+				host: argv.host,
+				secret: argv.secret,
 			});
 		},
 	)
@@ -159,6 +314,11 @@ yargs(hideBin(process.argv))
 					default: true,
 					desc: "include parent comments written before --since",
 				})
+				.option("include-resolved", {
+					type: "boolean",
+					default: false,
+					desc: "keep review threads already marked resolved",
+				})
 				.option("format", {
 					choices: ["md", "json", "both"] as const,
 					default: "both",
@@ -183,6 +343,7 @@ yargs(hideBin(process.argv))
 				since,
 				max,
 				fullThreads,
+				includeResolved,
 				format,
 				out,
 				authors,
@@ -195,6 +356,7 @@ yargs(hideBin(process.argv))
 				since,
 				max,
 				fullThreads,
+				includeResolved,
 				format,
 				out,
 				authors,
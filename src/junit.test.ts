@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { deflateRawSync } from "node:zlib";
+
+import type { ForgeProvider } from "./forge.js";
+import { fetchJUnitFailures, parseJUnit, pruneArtifactCache } from "./junit.js";
+import type { RunArtifact } from "./types.js";
+import { readZip } from "./zip.js";
+
+const XML = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+  <testsuite name="pytest" file="tests/test_suite.py">
+    <testcase classname="tests.test_a" name="test_ok" file="tests/test_a.py" time="0.1"/>
+    <testcase classname="tests.test_a" name="test_bad[1]" file="tests/test_a.py">
+      <failure message="assert 1 == 2 &amp; more">Traceback:
+  File "tests/test_a.py", line 12
+AssertionError: a &gt; b</failure>
+    </testcase>
+    <testcase classname="tests.test_b" name="test_boom">
+      <error type="RuntimeError"><![CDATA[RuntimeError: <boom>]]></error>
+    </testcase>
+    <testcase classname="tests.test_b" name="test_skip"><skipped message="x"/></testcase>
+  </testsuite>
+</testsuites>`;
+
+function runParseTest() {
+	const failures = parseJUnit(XML, "junit/report.xml");
+	assert.deepEqual(
+		failures.map((f) => [f.name, f.kind, f.file, f.message]),
+		[
+			["test_bad[1]", "failure", "tests/test_a.py", "assert 1 == 2 & more"],
+			["test_boom", "error", "tests/test_suite.py", "RuntimeError"],
+		],
+		"parseJUnit should keep failures and errors with decoded attributes",
+	);
+	assert.match(failures[0]?.trace ?? "", /AssertionError: a > b/);
+	assert.equal(failures[1]?.trace, "RuntimeError: <boom>");
+}
+
+// Single-entry deflated archive, as written by zip(1)
+function zipOf(name: string, data: Buffer): Buffer {
+	const comp = deflateRawSync(data);
+	const nameBuf = Buffer.from(name);
+	const local = Buffer.alloc(30);
+	local.writeUInt32LE(0x04034b50, 0);
+	local.writeUInt16LE(8, 8);
+	local.writeUInt32LE(comp.length, 18);
+	local.writeUInt32LE(data.length, 22);
+	local.writeUInt16LE(nameBuf.length, 26);
+	const central = Buffer.alloc(46);
+	central.writeUInt32LE(0x02014b50, 0);
+	central.writeUInt16LE(8, 10);
+	central.writeUInt32LE(comp.length, 20);
+	central.writeUInt32LE(data.length, 24);
+	central.writeUInt16LE(nameBuf.length, 28);
+	const centralOff = local.length + nameBuf.length + comp.length;
+	const eocd = Buffer.alloc(22);
+	eocd.writeUInt32LE(0x06054b50, 0);
+	eocd.writeUInt16LE(1, 8);
+	eocd.writeUInt16LE(1, 10);
+	eocd.writeUInt32LE(central.length + nameBuf.length, 12);
+	eocd.writeUInt32LE(centralOff, 16);
+	return Buffer.concat([local, nameBuf, comp, central, nameBuf, eocd]);
+}
+
+function runZipTest() {
+	const zip = zipOf("reports/junit.xml", Buffer.from(XML));
+	const entries = readZip(zip, (n) => n.endsWith(".xml"));
+	assert.equal(entries.length, 1);
+	assert.equal(entries[0]?.name, "reports/junit.xml");
+	assert.equal(entries[0]?.data.toString("utf8"), XML);
+	assert.equal(readZip(zip, () => false).length, 0);
+}
+
+const caseXml = (name: string) =>
+	`<testsuite><testcase classname="t" name="${name}"><failure message="x"/></testcase></testsuite>`;
+
+async function runArtifactCacheTest(root: string) {
+	// Attempt 2 of the run re-uploads the same artifact name under a new id
+	let artifacts: RunArtifact[] = [];
+	const zips = new Map<number, Buffer>();
+	const downloads: number[] = [];
+	const gh = {
+		listRunArtifacts: async () => ({ items: artifacts, truncated: false }),
+		downloadArtifact: async (_ref: unknown, id: number) => {
+			downloads.push(id);
+			return zips.get(id);
+		},
+	} as unknown as ForgeProvider;
+	const ref = { owner: "o", repo: "r" };
+	const upload = (id: number, test: string) => {
+		artifacts = [{ id, name: "junit", sizeInBytes: 100, expired: false }];
+		zips.set(id, zipOf("junit.xml", Buffer.from(caseXml(test))));
+	};
+
+	upload(1, "test_first");
+	const first = await fetchJUnitFailures(gh, ref, 42, root);
+	assert.deepEqual(
+		first.tests?.map((t) => t.name),
+		["test_first"],
+	);
+	await fetchJUnitFailures(gh, ref, 42, root);
+	assert.deepEqual(downloads, [1], "unpacked artifacts are reused");
+
+	upload(2, "test_second");
+	const second = await fetchJUnitFailures(gh, ref, 42, root);
+	assert.deepEqual(
+		second.tests?.map((t) => t.name),
+		["test_second"],
+	);
+	assert.deepEqual(await fs.readdir(path.join(root, "42")), ["2-junit"]);
+
+	// Old runs go, recent ones stay
+	const old = path.join(root, "7");
+	await fs.mkdir(old);
+	const weekAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+	await fs.utimes(old, weekAgo, weekAgo);
+	await pruneArtifactCache(root);
+	assert.deepEqual(await fs.readdir(root), ["42"]);
+}
+
+runParseTest();
+runZipTest();
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "awt-junit-"));
+try {
+	await runArtifactCacheTest(root);
+} finally {
+	await fs.rm(root, { recursive: true, force: true });
+}
@@ -0,0 +1,196 @@
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ForgeProvider } from "./forge.js";
+import type { RepoRef, TestFailure } from "./types.js";
+import { ensureDir, pathExists, sanitizeName } from "./util.js";
+import { readZip } from "./zip.js";
+
+// Artifact names that usually hold test reports (junit.xml, surefire, xunit, …)
+const RESULT_ARTIFACT =
+	/junit|xunit|surefire|test[-_ ]?(results?|reports?)|\bresults?\b/i;
+const MAX_ARTIFACTS = 5; // per run
+const MAX_ARTIFACT_BYTES = 50 * 1024 * 1024;
+const MAX_FAILURES = 200; // per run
+const MAX_TRACE_CHARS = 4000;
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // unpacked run dirs
+
+// Tags we care about; attribute values may contain '>' inside quotes
+const TAG =
+	/<(\/?)(testsuite|testcase|failure|error)\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+const ATTR = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeXml(s: string): string {
+	return s
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_m, c: string) => c)
+		.replace(/&#x([0-9a-f]+);/gi, (_m, h: string) =>
+			String.fromCodePoint(Number.parseInt(h, 16)),
+		)
+		.replace(/&#(\d+);/g, (_m, d: string) =>
+			String.fromCodePoint(Number.parseInt(d, 10)),
+		)
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+function attrs(raw: string): Record<string, string> {
+	const out: Record<string, string> = {};
+	for (const m of raw.matchAll(ATTR)) {
+		if (m[1]) out[m[1]] = decodeXml(m[2] ?? m[3] ?? "");
+	}
+	return out;
+}
+
+/**
+ * Failed and errored test cases of a JUnit/xUnit XML report (pytest,
+ * jest-junit, surefire, go-junit-report, …). Passing and skipped cases are
+ * ignored; `file` falls back to the enclosing testsuite's.
+ */
+export function parseJUnit(xml: string, source = ""): TestFailure[] {
+	const out: TestFailure[] = [];
+	const suiteFiles: (string | null)[] = [];
+	let testcase: Record<string, string> | null = null;
+	let open: {
+		kind: TestFailure["kind"];
+		at: Record<string, string>;
+		from: number;
+	} | null = null;
+
+	const push = (
+		kind: TestFailure["kind"],
+		at: Record<string, string>,
+		body: string,
+	) => {
+		if (!testcase) return;
+		const trace = decodeXml(body).trim();
+		out.push({
+			name: testcase.name ?? "(unnamed)",
+			classname: testcase.classname || null,
+			file: testcase.file || suiteFiles.at(-1) || null,
+			kind,
+			message: at.message || at.type || null,
+			trace:
+				trace.length > MAX_TRACE_CHARS
+					? `${trace.slice(0, MAX_TRACE_CHARS)}\n… (truncated)`
+					: trace || null,
+			source,
+		});
+	};
+
+	for (const m of xml.matchAll(TAG)) {
+		const [whole, closing, tag, rawAttrs = "", selfClosing] = m;
+		if (tag === "testsuite") {
+			if (closing) suiteFiles.pop();
+			else if (!selfClosing) suiteFiles.push(attrs(rawAttrs).file ?? null);
+		} else if (tag === "testcase") {
+			testcase = closing || selfClosing ? null : attrs(rawAttrs);
+		} else if (testcase) {
+			const kind = tag as TestFailure["kind"];
+			if (closing) {
+				if (open?.kind === kind)
+					push(kind, open.at, xml.slice(open.from, m.index));
+				open = null;
+			} else if (selfClosing) {
+				push(kind, attrs(rawAttrs), "");
+			} else {
+				open = { kind, at: attrs(rawAttrs), from: m.index + whole.length };
+			}
+		}
+	}
+	return out;
+}
+
+/** Remove unpacked run dirs under `root` untouched for `maxAgeMs`. */
+export async function pruneArtifactCache(
+	root: string,
+	maxAgeMs = CACHE_MAX_AGE_MS,
+): Promise<void> {
+	const cutoff = Date.now() - maxAgeMs;
+	for (const name of await fs.readdir(root).catch(() => [])) {
+		const dir = path.join(root, name);
+		const st = await fs.stat(dir).catch(() => null);
+		if (st && st.mtimeMs < cutoff)
+			await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+	}
+}
+
+/**
+ * Download the test-report artifacts of a run, unzip their XML files under
+ * the OS temp dir and parse them. Artifacts are unpacked once per artifact
+ * id: a re-run attempt uploads new ones, and the previous attempt's are
+ * removed. `tests` is null when the run uploaded no results artifact, so
+ * callers fall back to logs.
+ */
+export async function fetchJUnitFailures(
+	gh: ForgeProvider,
+	ref: RepoRef,
+	runId: number,
+	cacheRoot = path.join(os.tmpdir(), "awt-ci", "artifacts"),
+): Promise<{
+	tests: TestFailure[] | null;
+	dir: string | null;
+	truncated: boolean;
+}> {
+	const artifacts = (await gh.listRunArtifacts(ref, runId)).items.filter(
+		(a) =>
+			!a.expired &&
+			a.sizeInBytes <= MAX_ARTIFACT_BYTES &&
+			RESULT_ARTIFACT.test(a.name),
+	);
+	if (!artifacts.length) return { tests: null, dir: null, truncated: false };
+
+	await pruneArtifactCache(cacheRoot);
+	const runDir = path.join(cacheRoot, String(runId));
+	const used = artifacts.slice(0, MAX_ARTIFACTS);
+	const names = new Set(used.map((a) => `${a.id}-${sanitizeName(a.name)}`));
+	// Earlier attempts of the run; a stale dir would shadow this one's results
+	for (const f of await fs.readdir(runDir).catch(() => [])) {
+		if (!names.has(f) && !f.includes(".tmp-"))
+			await fs.rm(path.join(runDir, f), { recursive: true, force: true });
+	}
+	const tests: TestFailure[] = [];
+	let found = false;
+	for (const a of used) {
+		const dir = path.join(runDir, `${a.id}-${sanitizeName(a.name)}`);
+		if (!(await pathExists(dir))) {
+			const zip = await gh.downloadArtifact(ref, a.id);
+			const entries = readZip(zip, (n) => n.toLowerCase().endsWith(".xml"));
+			// Unpack next to the target and rename, so a crash never leaves a partial dir
+			const tmp = `${dir}.tmp-${process.pid}`;
+			await ensureDir(tmp);
+			for (const e of entries) {
+				await fs.writeFile(path.join(tmp, sanitizeName(e.name)), e.data);
+			}
+			await fs.rename(tmp, dir);
+		}
+		for (const f of await fs.readdir(dir)) {
+			const xml = await fs.readFile(path.join(dir, f), "utf8");
+			if (!/<testsuite|<testcase/.test(xml)) continue;
+			found = true;
+			tests.push(...parseJUnit(xml, `${a.name}/${f}`));
+		}
+	}
+	return {
+		tests: found ? tests.slice(0, MAX_FAILURES) : null,
+		dir: found ? runDir : null,
+		truncated: tests.length > MAX_FAILURES || artifacts.length > MAX_ARTIFACTS,
+	};
+}
+
+/** Plain-text listing of test failures, for summarization prompts. */
+export function formatTestFailures(tests: TestFailure[]): string {
+	return tests
+		.map((t) =>
+			[
+				`--- ${t.kind.toUpperCase()}: ${t.classname ? `${t.classname}.` : ""}${t.name}${t.file ? ` (${t.file}${t.line ? `:${t.line}` : ""})` : ""}`,
+				t.message ?? "",
+				t.trace ?? "",
+			]
+				.filter(Boolean)
+				.join("\n"),
+		)
+		.join("\n\n");
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { clearStaleLock, lockPathFor, tryAcquireLock } from "./lock.js";
+
+// Far above any pid_max, so never alive
+const DEAD_PID = 2 ** 30;
+
+async function runHeldTest(root: string) {
+	const first = await tryAcquireLock(root, "wt-a");
+	assert.ok("release" in first, "a free worktree is acquired");
+	const second = await tryAcquireLock(root, "wt-a");
+	assert.ok("holder" in second, "a live lock is not taken");
+	assert.equal(second.holder.pid, process.pid);
+	await first.release();
+	const third = await tryAcquireLock(root, "wt-a");
+	assert.ok("release" in third, "released locks are free again");
+	await third.release();
+}
+
+async function runStaleTest(root: string) {
+	const p = lockPathFor(root, "wt-b");
+	await fs.mkdir(path.dirname(p), { recursive: true });
+	const stale = JSON.stringify({
+		pid: DEAD_PID,
+		worktree: "wt-b",
+		acquiredAt: "2024-05-01T10:00:00.000Z",
+	});
+	await fs.writeFile(p, stale);
+	const res = await tryAcquireLock(root, "wt-b");
+	assert.ok("release" in res, "a dead holder's lock is taken over");
+	const now = JSON.parse(await fs.readFile(p, "utf8"));
+	assert.equal(now.pid, process.pid);
+
+	// A lock that changed since it was judged stale is put back, not removed
+	await clearStaleLock(p, stale);
+	assert.equal(JSON.parse(await fs.readFile(p, "utf8")).pid, process.pid);
+	assert.deepEqual(
+		(await fs.readdir(path.dirname(p))).filter((f) => f.includes("stale")),
+		[],
+	);
+	await res.release();
+
+	await fs.writeFile(p, stale);
+	await clearStaleLock(p, stale);
+	await assert.rejects(fs.stat(p), /ENOENT/);
+}
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "awt-lock-"));
+try {
+	await runHeldTest(root);
+	await runStaleTest(root);
+} finally {
+	await fs.rm(root, { recursive: true, force: true });
+}
@@ -0,0 +1,160 @@
+import { promises as fs, rmSync } from "node:fs";
+import * as path from "node:path";
+import { listControlSockets, pidAlive, sendControl } from "./control.js";
+import { ensureDir, sanitizeName, sleep } from "./util.js";
+
+export interface LockInfo {
+	pid: number;
+	worktree: string;
+	acquiredAt: string;
+}
+
+// Locks held by this process, removed synchronously on exit
+const held = new Set<string>();
+let exitHookInstalled = false;
+
+export function lockPathFor(repoRoot: string, wt: string): string {
+	return path.join(repoRoot, ".awt", "locks", `${sanitizeName(wt)}.lock`);
+}
+
+function parseLock(raw: string | null): LockInfo | null {
+	try {
+		return raw ? (JSON.parse(raw) as LockInfo) : null;
+	} catch {
+		return null;
+	}
+}
+
+async function readLock(p: string): Promise<LockInfo | null> {
+	return parseLock(await fs.readFile(p, "utf8").catch(() => null));
+}
+
+/**
+ * Remove a stale lock only if it still holds `seen`, the content judged
+ * stale. The file is first renamed aside, atomically, so a fresh lock
+ * written by another process in the meantime is put back, never deleted.
+ */
+export async function clearStaleLock(p: string, seen: string): Promise<void> {
+	const aside = `${p}.stale-${process.pid}-${Date.now()}`;
+	try {
+		await fs.rename(p, aside);
+	} catch {
+		return; // already cleared by someone else
+	}
+	const moved = await fs.readFile(aside, "utf8").catch(() => null);
+	if (moved !== seen) {
+		// Another process took over in between: restore its lock unless a
+		// third one already holds the path
+		await fs.link(aside, p).catch(() => {});
+	}
+	await fs.rm(aside, { force: true });
+}
+
+/** The live holder of a worktree's lock, or null when free or stale. */
+export async function readLiveLock(
+	repoRoot: string,
+	wt: string,
+): Promise<LockInfo | null> {
+	const info = await readLock(lockPathFor(repoRoot, wt));
+	return info && pidAlive(info.pid) ? info : null;
+}
+
+/**
+ * Try to take the single-instance lock for a worktree. Stale locks left by
+ * dead processes are cleared; a live holder is returned instead of a release fn.
+ */
+export async function tryAcquireLock(
+	repoRoot: string,
+	wt: string,
+): Promise<{ release: () => Promise<void> } | { holder: LockInfo }> {
+	const p = lockPathFor(repoRoot, wt);
+	await ensureDir(path.dirname(p));
+	const info: LockInfo = {
+		pid: process.pid,
+		worktree: wt,
+		acquiredAt: new Date().toISOString(),
+	};
+	for (let attempt = 0; attempt < 3; attempt++) {
+		try {
+			await fs.writeFile(p, JSON.stringify(info), { flag: "wx" });
+			held.add(p);
+			installExitHook();
+			return {
+				release: async () => {
+					held.delete(p);
+					const cur = await readLock(p);
+					if (cur?.pid === process.pid) await fs.rm(p, { force: true });
+				},
+			};
+		} catch (e) {
+			if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+		}
+		let raw = await fs.readFile(p, "utf8").catch(() => null);
+		let holder = parseLock(raw);
+		if (!holder) {
+			// The creator may not have written its pid yet
+			await sleep(100);
+			raw = await fs.readFile(p, "utf8").catch(() => null);
+			holder = parseLock(raw);
+		}
+		if (holder && pidAlive(holder.pid)) {
+			return { holder };
+		}
+		// Stale (dead pid, or unreadable half-written file): clear and retry
+		if (raw !== null) await clearStaleLock(p, raw);
+	}
+	throw new Error(`Could not acquire watcher lock ${p}`);
+}
+
+/**
+ * Acquire the worktree lock, optionally taking over from a running watcher:
+ * it is asked to stop over its control socket (a `--all` supervisor only
+ * releases this worktree), then SIGTERM is used as a last resort.
+ */
+export async function acquireLock(
+	repoRoot: string,
+	wt: string,
+	opts: { replace: boolean },
+): Promise<() => Promise<void>> {
+	const first = await tryAcquireLock(repoRoot, wt);
+	if ("release" in first) return first.release;
+	const { holder } = first;
+	if (!opts.replace) {
+		throw new Error(
+			`A watcher for worktree '${wt}' is already running (pid ${holder.pid}). Use --replace to take over, or 'awt-ci stop --wt ${wt}'.`,
+		);
+	}
+	const live = await listControlSockets(repoRoot);
+	const ctl = live.find((l) => l.info.pid === holder.pid);
+	if (ctl) {
+		await sendControl(ctl.sockPath, {
+			cmd: "stop",
+			worktree: ctl.info.mode === "all" ? wt : undefined,
+		});
+	}
+	for (let i = 0; i < 50; i++) {
+		const next = await tryAcquireLock(repoRoot, wt);
+		if ("release" in next) return next.release;
+		if (i === 25 && !ctl) {
+			try {
+				process.kill(holder.pid, "SIGTERM");
+			} catch {}
+		}
+		await sleep(200);
+	}
+	throw new Error(
+		`Watcher pid ${holder.pid} did not release worktree '${wt}'; stop it manually.`,
+	);
+}
+
+function installExitHook() {
+	if (exitHookInstalled) return;
+	exitHookInstalled = true;
+	process.once("exit", () => {
+		for (const p of held) {
+			try {
+				rmSync(p, { force: true });
+			} catch {}
+		}
+	});
+}
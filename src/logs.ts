@@ -0,0 +1,92 @@
+import { promises as fs } from "node:fs";
+import { eventLogPath, type WatchEvent } from "./events.js";
+import { repoRoot } from "./git.js";
+import { color, homePathDisplay, sleep } from "./util.js";
+
+export interface LogsArgs {
+	wt: string;
+	follow?: boolean;
+	json?: boolean;
+	lines?: number;
+}
+
+function formatEvent(ev: WatchEvent): string {
+	const { ts, wt: _wt, type, stack, ...rest } = ev;
+	const kv = Object.entries(rest)
+		.filter(([, v]) => v !== undefined && v !== null)
+		.map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+		.join(" ");
+	const label = type.padEnd(6);
+	const tag =
+		type === "error"
+			? color("red", label)
+			: type === "paste"
+				? color("cyan", label)
+				: color("dim", label);
+	const head = `${ts}  ${tag} ${kv}`;
+	return typeof stack === "string"
+		? `${head}\n${color("dim", stack.replace(/^/gm, "    "))}`
+		: head;
+}
+
+function printLines(chunk: string, json: boolean) {
+	for (const line of chunk.split("\n")) {
+		if (!line.trim()) continue;
+		if (json) {
+			process.stdout.write(`${line}\n`);
+			continue;
+		}
+		try {
+			process.stdout.write(`${formatEvent(JSON.parse(line) as WatchEvent)}\n`);
+		} catch {
+			process.stdout.write(`${line}\n`);
+		}
+	}
+}
+
+export async function runLogs(args: LogsArgs) {
+	const root = await repoRoot();
+	const file = eventLogPath(root, args.wt);
+	const json = !!args.json;
+
+	let text = "";
+	try {
+		text = await fs.readFile(file, "utf8");
+	} catch {
+		if (!args.follow) {
+			process.stderr.write(`No event log at ${homePathDisplay(file)}\n`);
+			process.exitCode = 1;
+			return;
+		}
+	}
+	const all = text.split("\n").filter((l) => l.trim());
+	const tail = args.lines && args.lines > 0 ? all.slice(-args.lines) : all;
+	printLines(tail.join("\n"), json);
+	if (!args.follow) return;
+
+	// Follow: poll for appended bytes; start over when the log rotates
+	let offset = Buffer.byteLength(text, "utf8");
+	let partial = "";
+	while (true) {
+		await sleep(500);
+		const st = await fs.stat(file).catch(() => null);
+		if (!st) continue;
+		if (st.size < offset) {
+			offset = 0;
+			partial = "";
+		}
+		if (st.size === offset) continue;
+		const fh = await fs.open(file, "r");
+		try {
+			const buf = Buffer.alloc(st.size - offset);
+			await fh.read(buf, 0, buf.length, offset);
+			offset = st.size;
+			const chunk = partial + buf.toString("utf8");
+			const nl = chunk.lastIndexOf("\n");
+			partial = chunk.slice(nl + 1);
+			printLines(chunk.slice(0, nl + 1), json);
+		} finally {
+			await fh.close();
+		}
+	}
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+
+import { normalizeLog } from "./normalize.js";
+
+function runStripTest() {
+	const raw = [
+		"2024-05-01T10:00:00.1234567Z \u001b[31mFAILED\u001b[0m tests/test_a.py::test_x",
+		"2024-05-01T10:00:00.1234567Z 01E+ error: \u001b]8;;https://x\u0007link\u001b]8;;\u0007",
+		"section_start:1714550000:step_script\r\u001b[0KExecuting step",
+		"Downloading 10%\rDownloading 55%\rDownloading 100%",
+	].join("\n");
+	assert.equal(
+		normalizeLog(raw),
+		[
+			"FAILED tests/test_a.py::test_x",
+			"error: link",
+			"Executing step",
+			"Downloading 100%",
+		].join("\n"),
+	);
+}
+
+function runCollapseTest() {
+	const raw = [
+		"Receiving objects:  10% (1/10)",
+		"Receiving objects:  90% (9/10)",
+		"[=====>              ] 30%",
+		"tests/test_a.py ....F [ 50%]",
+		"tests/test_b.py ..... [100%]",
+		...Array(240).fill("WARN retrying"),
+		"",
+		"",
+		"",
+		"done",
+	].join("\n");
+	assert.equal(
+		normalizeLog(raw),
+		[
+			"[=====>              ] 30%",
+			"tests/test_a.py ....F [ 50%]",
+			"tests/test_b.py ..... [100%]",
+			"WARN retrying",
+			"… repeated 239 more times",
+			"",
+			"",
+			"",
+			"done",
+		].join("\n"),
+	);
+}
+
+function runProgressTest() {
+	const raw = [
+		"Downloading 10%",
+		"Downloading 55% of 12MB",
+		" 45% |██████████          | 9/20",
+		" 90% |██████████████████  | 18/20",
+		"Resolving deltas:  10% (1/10)",
+		"Resolving deltas: 100% (10/10), done.",
+	].join("\n");
+	assert.equal(normalizeLog(raw), "Resolving deltas: 100% (10/10), done.");
+
+	// Result summaries look like percentages but are kept whole
+	const summary = [
+		"Coverage: 85%",
+		"Lines: 90.1%",
+		"Tests: 12 passed (100%)",
+		"Statements   : 85.5% ( 100/117 )",
+		"Branches     : 70% ( 7/10 )",
+		"TOTAL      1234    120    90%",
+	].join("\n");
+	assert.equal(normalizeLog(summary), summary);
+}
+
+function runFiltersTest() {
+	const raw = "npm WARN deprecated x\nnpm WARN deprecated y\nok\nok\nok";
+	assert.equal(
+		normalizeLog(raw, { drop: ["^npm WARN", "("], keep: ["^ok$"] }),
+		"ok\nok\nok",
+	);
+}
+
+runStripTest();
+runProgressTest();
+runCollapseTest();
+runFiltersTest();
@@ -0,0 +1,91 @@
+import type { LogFilters } from "./types.js";
+
+// CSI (colors, cursor moves, GitLab's \e[0K) and OSC (hyperlinks, titles)
+const ESC = "\u001b";
+const BEL = "\u0007";
+const RE_ANSI = new RegExp(
+	`${ESC}\\[[0-9;?]*[ -/]*[@-~]|${ESC}\\][^${BEL}${ESC}]*(?:${BEL}|${ESC}\\\\)`,
+	"g",
+);
+/**
+ * Runner timestamp at the start of a log line. Actions writes
+ * "2024-05-01T10:00:00.1234567Z "; GitLab adds a stream tag: "… 00O+ ".
+ * normalizeLog strips it, so parsers and step splitting never see it.
+ */
+export const RE_RUNNER_TIMESTAMP =
+	/^\d{4}-\d\d-\d\dT[\d:.]+Z(?: [0-9a-f]{2}[OE]\+?)? ?/;
+// GitLab collapsible-section markers, left bare once the escapes are gone
+const RE_GITLAB_SECTION = /^section_(?:start|end):\d+:\S+/;
+// Progress output: leading percentages ("45% |…"), a verb in progress
+// ("Downloading 45%"), git's "Receiving objects:  45% (9/10)", [=====>   ]
+// and block-character bars, spinners. Summaries such as "Coverage: 85%",
+// "Statements : 85.5% ( 100/117 )" or pytest's "[ 45%]" suffix do not match:
+// they carry results.
+const RE_PROGRESS =
+	/^\s*\d{1,3}(?:\.\d+)?%\s|^\s*\w+ing\b[^:%]*\s\d{1,3}(?:\.\d+)?%(?:\s|$)|^\s*[\w ]+:\s+\d{1,3}% \(\d+\/\d+\)|\[[=#>.\- ]{8,}\]|[█▏▎▍▌▋▊▉░▒▓■□]{4,}|^\s*[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]\s/;
+const MIN_REPEAT = 3; // identical lines in a row before they collapse
+
+function compile(patterns: string[] | undefined): RegExp[] {
+	const out: RegExp[] = [];
+	for (const p of patterns ?? []) {
+		try {
+			out.push(new RegExp(p));
+		} catch {
+			// A bad pattern in config should not sink the whole report
+		}
+	}
+	return out;
+}
+
+/**
+ * Clean a raw job log before curation: strip ANSI escapes and runner
+ * timestamps, keep only the final state of `\r`-overwritten lines, reduce
+ * runs of progress lines to their last one and collapse repeated lines.
+ * `filters.drop` removes matching lines; `filters.keep` exempts lines from
+ * dropping and collapsing.
+ */
+export function normalizeLog(raw: string, filters: LogFilters = {}): string {
+	const drop = compile(filters.drop);
+	const keep = compile(filters.keep);
+	const kept = (ln: string) => keep.some((re) => re.test(ln));
+
+	const lines: string[] = [];
+	for (let ln of raw.split(/\r?\n/)) {
+		ln = ln.replace(RE_ANSI, "");
+		// A terminal shows only what the last carriage return wrote
+		if (ln.includes("\r")) ln = ln.split("\r").filter(Boolean).at(-1) ?? "";
+		ln = ln.replace(RE_RUNNER_TIMESTAMP, "");
+		if (RE_GITLAB_SECTION.test(ln)) ln = ln.replace(RE_GITLAB_SECTION, "");
+		if (kept(ln)) {
+			lines.push(ln);
+			continue;
+		}
+		if (drop.some((re) => re.test(ln))) continue;
+		// Consecutive progress lines: the latest supersedes the previous
+		const prev = lines[lines.length - 1];
+		if (
+			prev !== undefined &&
+			RE_PROGRESS.test(ln) &&
+			RE_PROGRESS.test(prev) &&
+			!kept(prev)
+		) {
+			lines[lines.length - 1] = ln;
+			continue;
+		}
+		lines.push(ln);
+	}
+
+	const out: string[] = [];
+	for (let i = 0; i < lines.length; ) {
+		const ln = lines[i] ?? "";
+		let n = 1;
+		while (i + n < lines.length && lines[i + n] === ln) n++;
+		if (n >= MIN_REPEAT && ln.trim() && !kept(ln)) {
+			out.push(ln, `… repeated ${n - 1} more times`);
+		} else {
+			for (let k = 0; k < n; k++) out.push(ln);
+		}
+		i += n;
+	}
+	return out.join("\n");
+}
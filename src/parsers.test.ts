@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+
+import { normalizeLog } from "./normalize.js";
+import { scanLog, traceBlocks } from "./parsers.js";
+
+// Parsers read normalized logs: runner timestamps are already gone
+const PYTEST =
+	normalizeLog(`2024-05-01T10:00:00.0000000Z ============================= test session starts ==============================
+2024-05-01T10:00:00.0000000Z platform linux -- Python 3.12.1, pytest-8.0.0
+2024-05-01T10:00:01.0000000Z tests/test_a.py .F                                                       [100%]
+2024-05-01T10:00:01.0000000Z =================================== FAILURES ===================================
+2024-05-01T10:00:01.0000000Z _________________________________ test_bad __________________________________
+2024-05-01T10:00:01.0000000Z     def test_bad():
+2024-05-01T10:00:01.0000000Z >       assert 1 == 2
+2024-05-01T10:00:01.0000000Z E       assert 1 == 2
+2024-05-01T10:00:01.0000000Z tests/test_a.py:7: AssertionError
+2024-05-01T10:00:01.0000000Z =========================== short test summary info ============================
+2024-05-01T10:00:01.0000000Z FAILED tests/test_a.py::test_bad - assert 1 == 2
+2024-05-01T10:00:01.0000000Z ========================= 1 failed, 1 passed in 0.10s =========================`);
+
+const JEST = ` FAIL  src/sum.test.ts
+  ● math › adds
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 3
+    Received: 4
+
+      at Object.<anonymous> (src/sum.test.ts:5:17)
+
+Test Suites: 1 failed, 1 total
+Tests:       1 failed, 2 passed, 3 total`;
+
+const VITEST = ` RUN  v1.6.0 /repo
+
+ ❯ src/a.test.ts (2 tests | 1 failed) 5ms
+   × parses > handles empty input
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/a.test.ts > parses > handles empty input
+AssertionError: expected '' to be 'x'
+ ❯ src/a.test.ts:12:20
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯
+
+ Test Files  1 failed (1)
+      Tests  1 failed | 1 passed (2)`;
+
+const GO = `=== RUN   TestParse
+=== RUN   TestParse/empty
+    parse_test.go:21: got "", want "x"
+--- FAIL: TestParse (0.00s)
+    --- FAIL: TestParse/empty (0.00s)
+        parse_test.go:21: got "", want "x"
+FAIL
+FAIL	example.com/pkg	0.012s`;
+
+const CARGO = `running 2 tests
+test tests::ok ... ok
+test tests::bad ... FAILED
+
+failures:
+
+---- tests::bad stdout ----
+thread 'tests::bad' panicked at src/lib.rs:10:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+
+failures:
+    tests::bad
+
+test result: FAILED. 1 passed; 1 failed; 0 ignored`;
+
+const MOCHA = `  Parser
+    ✔ parses
+    1) rejects junk
+
+
+  1 passing (8ms)
+  1 failing
+
+  1) Parser
+       rejects junk:
+     AssertionError [ERR_ASSERTION]: Missing expected exception.
+      at Context.<anonymous> (test/parser.spec.js:14:12)
+      at process.processImmediate (node:internal/timers:478:21)
+`;
+
+const GRADLE = `> Task :app:test
+
+com.example.ParserTest > rejectsJunk() FAILED
+    org.opentest4j.AssertionFailedError: expected: <true> but was: <false>
+        at app//com.example.ParserTest.rejectsJunk(ParserTest.java:42)
+
+3 tests completed, 1 failed
+
+FAILURE: Build failed with an exception.
+
+BUILD FAILED in 4s`;
+
+function runDetectTest() {
+	const cases: [string, string, [string, string | null, number | null]][] = [
+		[PYTEST, "pytest", ["tests/test_a.py::test_bad", "tests/test_a.py", 7]],
+		[JEST, "jest", ["math › adds", "src/sum.test.ts", 5]],
+		[
+			VITEST,
+			"vitest",
+			["src/a.test.ts > parses > handles empty input", "src/a.test.ts", 12],
+		],
+		[GO, "go", ["TestParse/empty", "parse_test.go", 21]],
+		[CARGO, "cargo", ["tests::bad", "src/lib.rs", 10]],
+		[MOCHA, "mocha", ["Parser rejects junk", "test/parser.spec.js", 14]],
+		[GRADLE, "gradle", ["rejectsJunk()", "ParserTest.java", 42]],
+	];
+	for (const [log, parser, first] of cases) {
+		const r = scanLog(log);
+		assert.equal(r.parser, parser, `detects ${parser}`);
+		const f = r.failures[0];
+		assert.deepEqual([f?.name, f?.file, f?.line], first, `${parser} failure`);
+		assert.ok(f?.message, `${parser} failure message`);
+		assert.equal(f?.source, `log:${parser}`);
+		assert.ok(
+			r.hits.some((h) => h.kind === "failed"),
+			`${parser} hits`,
+		);
+	}
+	assert.equal(scanLog(PYTEST).failures[0]?.message, "assert 1 == 2");
+	assert.match(scanLog(PYTEST).failures[0]?.trace ?? "", /E {7}assert 1 == 2/);
+	assert.equal(scanLog(GO).failures.length, 1);
+	assert.match(scanLog(CARGO).failures[0]?.message ?? "", /left == right/);
+}
+
+function runRuleTest() {
+	// A rule pins the parser even when another framework's banner shows up
+	const rules = [{ workflow: "^ci$", job: "unit", parser: "go" }];
+	assert.equal(
+		scanLog(JEST, { workflow: "CI", job: "unit (1)", rules }).parser,
+		"go",
+	);
+	assert.equal(
+		scanLog(JEST, { workflow: "Docs", job: "unit", rules }).parser,
+		"jest",
+	);
+	// Unknown parser names and bad patterns fall through to detection
+	assert.equal(
+		scanLog(JEST, {
+			job: "x",
+			rules: [{ job: "(", parser: "go" }, { parser: "nope" }],
+		}).parser,
+		"jest",
+	);
+	// Logs no parser recognizes keep the keyword scan
+	const plain = scanLog("step 1\nERROR collecting tests/x.py\ndone");
+	assert.equal(plain.parser, "pytest");
+	assert.deepEqual(plain.hits, [{ index: 1, kind: "error" }]);
+}
+
+function runTraceTest() {
+	const lines = [
+		"ok", // 0
+		"TypeError: x is undefined", // 1
+		"    at f (src/a.js:1:2)", // 2
+		"    at g (src/b.js:3:4)", // 3
+		"done", // 4
+		"java.lang.IllegalStateException: nope", // 5
+		"\tat com.x.A.run(A.java:10)", // 6
+		"Caused by: java.io.IOException: eof", // 7
+		"\tat com.x.B.read(B.java:20)", // 8
+		"\t... 3 more", // 9
+		"panic: runtime error: index out of range", // 10
+		"", // 11
+		"goroutine 7 [running]:", // 12
+		"\t/src/x.go:12 +0x1d", // 13
+		"FAIL\texample.com/x\t0.1s", // 14
+		"thread 'main' panicked at src/main.rs:2:5:", // 15
+		"boom", // 16
+		"", // 17
+	];
+	assert.deepEqual(traceBlocks(lines), [
+		[1, 3],
+		[5, 13],
+		[15, 16],
+	]);
+}
+
+runDetectTest();
+runRuleTest();
+runTraceTest();
@@ -0,0 +1,531 @@
+import type { LogParserRule, TestFailure } from "./types.js";
+
+const MAX_FAILURES = 50; // per job
+const MAX_TRACE_LINES = 60;
+const MAX_TRACE_CHARS = 4000;
+
+/** A line worth keeping in the excerpt; only error/failed/xfail are counted. */
+export interface LogHit {
+	index: number;
+	kind: "error" | "failed" | "xfail" | "info";
+}
+
+export interface LogScan {
+	hits: LogHit[];
+	failures: TestFailure[];
+}
+
+/**
+ * One test framework's output conventions. `detect` looks for the
+ * framework's banners; `scan` gets the log's lines without timestamps.
+ */
+export interface LogParser {
+	name: string;
+	detect(lines: string[]): boolean;
+	scan(lines: string[]): LogScan;
+}
+
+const clean = (s: string) => s.trim();
+
+/** Trace lines from `start` up to (not including) the first line `stop` accepts. */
+function block(
+	lines: string[],
+	start: number,
+	stop: (line: string) => boolean,
+): string[] {
+	const out: string[] = [];
+	for (let i = start; i < lines.length && out.length < MAX_TRACE_LINES; i++) {
+		const ln = lines[i] ?? "";
+		if (stop(ln)) break;
+		out.push(ln);
+	}
+	while (out.length && !out[out.length - 1]?.trim()) out.pop();
+	return out;
+}
+
+function trace(lines: string[]): string | null {
+	const t = lines.join("\n").trim();
+	if (!t) return null;
+	return t.length > MAX_TRACE_CHARS
+		? `${t.slice(0, MAX_TRACE_CHARS)}\n… (truncated)`
+		: t;
+}
+
+function failure(
+	parser: string,
+	f: Partial<TestFailure> & { name: string },
+): TestFailure {
+	return {
+		classname: null,
+		file: null,
+		line: null,
+		kind: "failure",
+		message: null,
+		trace: null,
+		...f,
+		source: `log:${parser}`,
+	};
+}
+
+/** First `file:line` of a JS stack or code frame outside node_modules. */
+function jsLocation(
+	lines: string[],
+): { file: string; line: number } | undefined {
+	for (const ln of lines) {
+		const m =
+			/(?:\(|at |❯ )((?:[A-Za-z]:)?[^\s():]+\.[cm]?[jt]sx?):(\d+)(?::\d+)?/.exec(
+				ln,
+			);
+		if (m?.[1] && !m[1].includes("node_modules"))
+			return { file: m[1], line: Number(m[2]) };
+	}
+	return undefined;
+}
+
+// pytest: the keyword scan awt-ci has always used, plus the summary block
+const RE_ERROR = /(^|[ \t])ERROR([ \t]|$)/;
+const RE_FAILED = /(^|[ \t])FAILED([ \t]|$)/;
+const RE_XFAIL = /(^|[ \t])XFAIL([ \t]|$)/;
+const SHORT_SUMMARY = /^=+ short test summary info =+$/;
+const SECTION_HEADER = /^_{3,} (.+?) _{3,}$/;
+
+/** Line of each "____ test_name ____" traceback header, first one wins. */
+function sectionIndex(lines: string[]): Map<string, number> {
+	const at = new Map<string, number>();
+	lines.forEach((l, i) => {
+		const title = SECTION_HEADER.exec(l)?.[1];
+		if (title && !at.has(title)) at.set(title, i);
+	});
+	return at;
+}
+
+const pytest: LogParser = {
+	name: "pytest",
+	detect: (lines) =>
+		lines.some(
+			(l) =>
+				SHORT_SUMMARY.test(l) ||
+				/^=+ (FAILURES|ERRORS) =+$|^platform \S+ -- Python /.test(l),
+		),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		lines.forEach((ln, index) => {
+			if (RE_ERROR.test(ln)) hits.push({ index, kind: "error" });
+			if (RE_FAILED.test(ln)) hits.push({ index, kind: "failed" });
+			if (RE_XFAIL.test(ln)) hits.push({ index, kind: "xfail" });
+		});
+		const summaryAt = lines.findIndex((l) => SHORT_SUMMARY.test(l));
+		const failures: TestFailure[] = [];
+		if (summaryAt >= 0) {
+			const sections = sectionIndex(lines);
+			for (let i = summaryAt; i < lines.length; i++) {
+				hits.push({ index: i, kind: "info" });
+				const m = /^(FAILED|ERROR) (\S+)(?: - (.*))?$/.exec(lines[i] ?? "");
+				if (!m?.[2]) continue;
+				const id = m[2];
+				// Traceback section: "____ test_name ____" up to the next header
+				const title = id.split("::").slice(1).join(".");
+				const at = sections.get(title);
+				const tb =
+					at !== undefined
+						? block(lines, at + 1, (l) => /^[_=]{3,} /.test(l))
+						: [];
+				const file = id.split("::")[0] ?? null;
+				const lineNo = tb
+					.map((l) => /^(\S+\.py):(\d+): /.exec(l))
+					.filter((x) => x?.[1] === file)
+					.at(-1)?.[2];
+				failures.push(
+					failure("pytest", {
+						name: id,
+						file,
+						line: lineNo ? Number(lineNo) : null,
+						kind: m[1] === "ERROR" ? "error" : "failure",
+						message: m[3] ?? null,
+						trace: trace(tb),
+					}),
+				);
+			}
+		}
+		return { hits, failures };
+	},
+};
+
+const jest: LogParser = {
+	name: "jest",
+	detect: (lines) =>
+		lines.some((l) =>
+			/^\s*(PASS|FAIL)\s+\S+\.[cm]?[jt]sx?(\s|$)|^Tests:\s+.*\b(failed|passed)\b/.test(
+				l,
+			),
+		),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		const stop = (l: string) =>
+			/^\s*●\s|^\s*(PASS|FAIL)\s|^(Test Suites|Tests):/.test(l);
+		let file: string | null = null;
+		lines.forEach((ln, index) => {
+			const suite = /^\s*FAIL\s+(\S+)/.exec(ln);
+			if (suite) {
+				file = suite[1] ?? null;
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			if (/^(Test Suites|Tests):.*\bfailed\b/.test(ln)) {
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			const m = /^\s*●\s+(.+)$/.exec(ln);
+			if (!m?.[1] || /^Console\b/.test(m[1])) return;
+			const suiteError = m[1] === "Test suite failed to run";
+			hits.push({ index, kind: suiteError ? "error" : "failed" });
+			const tb = block(lines, index + 1, stop);
+			const loc = jsLocation(tb);
+			failures.push(
+				failure("jest", {
+					name: suiteError ? (file ?? m[1]) : m[1].trim(),
+					file: loc?.file ?? file,
+					line: loc?.line ?? null,
+					kind: suiteError ? "error" : "failure",
+					message: tb.map(clean).find(Boolean) ?? null,
+					trace: trace(tb),
+				}),
+			);
+		});
+		return { hits, failures };
+	},
+};
+
+const vitest: LogParser = {
+	name: "vitest",
+	detect: (lines) =>
+		lines.some((l) =>
+			/^\s*RUN\s+v\d+\.\d+|^\s*Test Files\s+\d+|^\s*FAIL\s+\S+\s+>\s/.test(l),
+		),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		const stop = (l: string) => /^\s*FAIL\s|^\s*⎯{3,}|^\s*Test Files\s/.test(l);
+		lines.forEach((ln, index) => {
+			if (/^\s*(Test Files|Tests)\s+.*\bfailed\b/.test(ln)) {
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			const m = /^\s*FAIL\s+(\S+)\s+>\s+(.+)$/.exec(ln);
+			if (!m?.[1] || !m[2]) return;
+			hits.push({ index, kind: "failed" });
+			const tb = block(lines, index + 1, stop);
+			const loc = jsLocation(tb);
+			failures.push(
+				failure("vitest", {
+					name: `${m[1]} > ${m[2].trim()}`,
+					file: loc?.file ?? m[1],
+					line: loc?.line ?? null,
+					message: tb.map(clean).find(Boolean) ?? null,
+					trace: trace(tb),
+				}),
+			);
+		});
+		return { hits, failures };
+	},
+};
+
+const goTest: LogParser = {
+	name: "go",
+	detect: (lines) =>
+		lines.some((l) =>
+			/^\s*(--- (FAIL|PASS):|=== RUN\s)|^(ok|FAIL)\s+\S+\s+[\d.]+s$/.test(l),
+		),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		let running: string | null = null;
+		lines.forEach((ln, index) => {
+			const run = /^=== RUN\s+(\S+)/.exec(ln);
+			if (run) running = run[1] ?? null;
+			if (/^FAIL(\s|$)/.test(ln)) {
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			const fail = /^(\s*)--- FAIL: (\S+)/.exec(ln);
+			const panic = /^panic: (.*)$/.exec(ln);
+			if (!fail && !panic) return;
+			hits.push({ index, kind: fail ? "failed" : "error" });
+			// t.Error output follows the FAIL line, indented deeper; with -v it
+			// is streamed after the test's "=== RUN" line instead
+			const indent = fail?.[1]?.length ?? 0;
+			let tb = fail
+				? block(
+						lines,
+						index + 1,
+						(l) =>
+							!l.trim() ||
+							l.length - l.trimStart().length <= indent ||
+							/^\s*--- /.test(l),
+					)
+				: block(lines, index + 1, (l) => /^(FAIL|ok)\s|^exit status/.test(l));
+			if (fail && !tb.length) {
+				const ran = lines.lastIndexOf(`=== RUN   ${fail[2]}`, index);
+				if (ran >= 0)
+					tb = block(lines, ran + 1, (l) => /^\s*(===|---) /.test(l));
+			}
+			const loc = tb
+				.map((l) => /^\s*(\S+\.go):(\d+)(?::\s*(.*))?/.exec(l))
+				.find(Boolean);
+			failures.push(
+				failure("go", {
+					name: fail?.[2] ?? running ?? "panic",
+					file: loc?.[1] ?? null,
+					line: loc?.[2] ? Number(loc[2]) : null,
+					kind: fail ? "failure" : "error",
+					message:
+						panic?.[1] ?? loc?.[3] ?? tb.map(clean).find(Boolean) ?? null,
+					trace: trace(tb),
+				}),
+			);
+		});
+		// A parent test fails with its subtests; keep the subtests only
+		const kept = failures.filter(
+			(f) => !failures.some((g) => g.name.startsWith(`${f.name}/`)),
+		);
+		return { hits, failures: kept };
+	},
+};
+
+const cargo: LogParser = {
+	name: "cargo",
+	detect: (lines) =>
+		lines.some((l) =>
+			/^test \S+ \.\.\. (ok|FAILED|ignored)$|^test result: (ok|FAILED)\./.test(
+				l,
+			),
+		),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		lines.forEach((ln, index) => {
+			if (/^test \S+ \.\.\. FAILED$/.test(ln)) {
+				hits.push({ index, kind: "failed" });
+				return;
+			}
+			if (/^error(\[E\d+\])?: /.test(ln)) {
+				hits.push({ index, kind: "error" });
+				return;
+			}
+			if (/^test result: FAILED/.test(ln)) {
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			const m = /^---- (\S+) stdout ----$/.exec(ln);
+			if (!m?.[1]) return;
+			hits.push({ index, kind: "info" });
+			const tb = block(lines, index + 1, (l) =>
+				/^---- |^failures:$|^test result:/.test(l),
+			);
+			// 1.73+: "panicked at src/x.rs:1:2:\nmsg"; older: "panicked at 'msg', src/x.rs:1:2"
+			const at = tb.findIndex((l) => l.includes("panicked at "));
+			const p = /panicked at (?:'(.*)', )?(\S+?):(\d+):\d+:?$/.exec(
+				tb[at] ?? "",
+			);
+			failures.push(
+				failure("cargo", {
+					name: m[1],
+					file: p?.[2] ?? null,
+					line: p?.[3] ? Number(p[3]) : null,
+					message: p?.[1] ?? (at >= 0 ? tb[at + 1]?.trim() : null) ?? null,
+					trace: trace(tb),
+				}),
+			);
+		});
+		return { hits, failures };
+	},
+};
+
+const mocha: LogParser = {
+	name: "mocha",
+	detect: (lines) => lines.some((l) => /^\s*\d+ passing \(\d/.test(l)),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		const failingAt = lines.findIndex((l) => /^\s*\d+ failing$/.test(l));
+		if (failingAt < 0) return { hits, failures };
+		hits.push({ index: failingAt, kind: "info" });
+		for (let i = failingAt + 1; i < lines.length; i++) {
+			const m = /^\s{1,4}\d+\) (.+)$/.exec(lines[i] ?? "");
+			if (!m?.[1]) continue;
+			hits.push({ index: i, kind: "failed" });
+			// Title spans lines (suite, then test) and ends with ':'
+			const title = [m[1].trim()];
+			let j = i + 1;
+			while (!title.at(-1)?.endsWith(":") && j < lines.length) {
+				title.push((lines[j] ?? "").trim());
+				j++;
+			}
+			const tb = block(lines, j, (l) => /^\s{1,4}\d+\) /.test(l));
+			const loc = jsLocation(tb);
+			failures.push(
+				failure("mocha", {
+					name: title.join(" ").replace(/:$/, ""),
+					file: loc?.file ?? null,
+					line: loc?.line ?? null,
+					message: tb.map(clean).find(Boolean) ?? null,
+					trace: trace(tb),
+				}),
+			);
+			i = j - 1;
+		}
+		return { hits, failures };
+	},
+};
+
+const gradle: LogParser = {
+	name: "gradle",
+	detect: (lines) =>
+		lines.some((l) => /^> Task :|^BUILD (FAILED|SUCCESSFUL)\b/.test(l)),
+	scan(lines) {
+		const hits: LogHit[] = [];
+		const failures: TestFailure[] = [];
+		lines.forEach((ln, index) => {
+			if (/^(BUILD FAILED|\d+ tests? completed, \d+ failed)/.test(ln)) {
+				hits.push({ index, kind: "info" });
+				return;
+			}
+			if (/^FAILURE: |^e: \S+\.kt|^\S+\.java:\d+: error:/.test(ln)) {
+				hits.push({ index, kind: "error" });
+				return;
+			}
+			const m = /^(\S+) > (.+) FAILED$/.exec(ln);
+			if (!m?.[1] || !m[2]) return;
+			hits.push({ index, kind: "failed" });
+			const tb = block(lines, index + 1, (l) => !/^\s/.test(l));
+			const loc = tb
+				.map((l) => /\((\S+\.(?:java|kt|groovy|scala)):(\d+)\)/.exec(l))
+				.find(Boolean);
+			failures.push(
+				failure("gradle", {
+					name: m[2].trim(),
+					classname: m[1],
+					file: loc?.[1] ?? null,
+					line: loc?.[2] ? Number(loc[2]) : null,
+					message: tb.map(clean).find(Boolean) ?? null,
+					trace: trace(tb),
+				}),
+			);
+		});
+		return { hits, failures };
+	},
+};
+
+const RE_FRAME = /^\s+at \S/; // Node and JVM stack frames
+const RE_FRAME_MORE =
+	/^\s+at \S|^Caused by: |^\s+\.\.\. \d+ (?:more|common frames omitted)$/;
+const RE_THROWN = /\b\w*(?:Error|Exception|Failure)\b|^Caused by: /;
+
+/**
+ * Stack traces as inclusive `[start, end]` line ranges: Python tracebacks
+ * and pytest failure sections, Node/JVM `at` frames with the error above
+ * them, Go panics and Rust panics and backtraces.
+ */
+export function traceBlocks(lines: string[]): [number, number][] {
+	const out: [number, number][] = [];
+	const n = lines.length;
+	const until = (from: number, stop: (l: string) => boolean) => {
+		let i = from;
+		while (i + 1 < n && !stop(lines[i + 1] ?? "")) i++;
+		return i;
+	};
+	for (let i = 0; i < n; i++) {
+		const ln = lines[i] ?? "";
+		let start = i;
+		let end = -1;
+		if (/^\s*Traceback \(most recent call last\):/.test(ln)) {
+			// Indented frames, then the unindented exception line
+			end = until(i, (l) => !/^\s/.test(l));
+			end = Math.min(end + 1, n - 1);
+		} else if (/^_{3,} .+ _{3,}$/.test(ln)) {
+			end = until(i, (l) => /^[_=]{3,} /.test(l));
+		} else if (RE_FRAME.test(ln)) {
+			// The thrown error is printed a few lines above the first frame
+			for (let k = i - 1; k >= Math.max(0, i - 5); k--) {
+				if (RE_THROWN.test(lines[k] ?? "")) {
+					start = k;
+					break;
+				}
+			}
+			end = until(i, (l) => !RE_FRAME_MORE.test(l));
+		} else if (/^panic: /.test(ln)) {
+			end = until(i, (l) => /^(?:FAIL|ok)\s|^exit status /.test(l));
+		} else if (/^thread '.*' panicked at /.test(ln)) {
+			end = until(i, (l) => !l.trim());
+		} else if (/^\s*stack backtrace:$/.test(ln)) {
+			end = until(i, (l) => !/^\s+(?:\d+: |at )/.test(l));
+		}
+		if (end < 0) continue;
+		const prev = out[out.length - 1];
+		if (prev && start <= prev[1] + 1) prev[1] = Math.max(prev[1], end);
+		else out.push([start, end]);
+		i = end;
+	}
+	return out;
+}
+
+/**
+ * Known parsers, in detection order: the more specific banners first.
+ * pytest doubles as the fallback, so unrecognized logs keep the plain
+ * ERROR/FAILED/XFAIL keyword scan.
+ */
+export const LOG_PARSERS: LogParser[] = [
+	cargo,
+	goTest,
+	vitest,
+	jest,
+	mocha,
+	gradle,
+	pytest,
+];
+
+function ruleMatches(pattern: string | undefined, value: string): boolean {
+	if (!pattern) return true;
+	try {
+		return new RegExp(pattern, "i").test(value);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parser for a job's log: the first configured rule matching the workflow
+ * and job name wins, else the first parser that detects its framework.
+ */
+export function selectParser(
+	lines: string[],
+	ctx: { workflow?: string | null; job?: string; rules?: LogParserRule[] },
+): LogParser {
+	for (const r of ctx.rules ?? []) {
+		if (
+			ruleMatches(r.workflow, ctx.workflow ?? "") &&
+			ruleMatches(r.job, ctx.job ?? "")
+		) {
+			const p = LOG_PARSERS.find((x) => x.name === r.parser);
+			if (p) return p;
+		}
+	}
+	return LOG_PARSERS.find((p) => p.detect(lines)) ?? pytest;
+}
+
+/** Split a job log (normalizeLog output) and run the selected parser over it. */
+export function scanLog(
+	raw: string,
+	ctx: { workflow?: string | null; job?: string; rules?: LogParserRule[] } = {},
+): LogScan & { parser: string; lines: string[] } {
+	const lines = raw.split(/\r?\n/);
+	const parser = selectParser(lines, ctx);
+	const { hits, failures } = parser.scan(lines);
+	return {
+		parser: parser.name,
+		lines,
+		hits,
+		failures: failures.slice(0, MAX_FAILURES),
+	};
+}
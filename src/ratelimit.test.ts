@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+
+import { createRateLimitTracker, pollDelay } from "./ratelimit.js";
+
+const NOW = 1_700_000_000_000;
+
+function runTrackerTest() {
+	const rate = createRateLimitTracker();
+	rate.record({
+		"x-ratelimit-limit": "5000",
+		"x-ratelimit-remaining": "4990",
+		"x-ratelimit-reset": String(NOW / 1000 + 600),
+		"x-ratelimit-resource": "core",
+	});
+	rate.record({
+		"x-ratelimit-limit": "5000",
+		"x-ratelimit-remaining": "12",
+		"x-ratelimit-resource": "graphql",
+	});
+	const st = rate.state();
+	assert.equal(st.remaining, 4990, "graphql quota should not replace core");
+	assert.equal(st.resetAt, NOW + 600_000);
+	rate.record({ "retry-after": "30" }, 403);
+	assert.ok(
+		rate.state().retryAfterUntil,
+		"403 with retry-after should be kept",
+	);
+}
+
+function runPollDelayTest() {
+	const rl = (remaining: number, retryAfterUntil: number | null = null) => ({
+		limit: 5000,
+		remaining,
+		resetAt: NOW + 1800_000,
+		retryAfterUntil,
+	});
+	assert.deepEqual(pollDelay(60, rl(4000), 0, NOW), {
+		sec: 60,
+		paused: false,
+		throttled: null,
+	});
+	const quarter = pollDelay(60, rl(1250), 0, NOW);
+	assert.equal(quarter.sec, 120, "a quarter left should double the interval");
+	assert.ok(quarter.throttled);
+	assert.equal(pollDelay(60, rl(10), 0, NOW).sec, 480, "stretch caps at 8x");
+	assert.equal(
+		pollDelay(600, rl(10), 0, NOW).sec,
+		1801,
+		"stretching never waits past the reset",
+	);
+	const out = pollDelay(60, rl(0), 0, NOW);
+	assert.equal(out.paused, true);
+	assert.equal(out.sec, 1801, "an empty quota should pause until the reset");
+	assert.equal(pollDelay(60, rl(40), 50, NOW).paused, true, "reserve");
+	const secondary = pollDelay(15, rl(4000, NOW + 90_000), 0, NOW);
+	assert.deepEqual(
+		[secondary.sec, secondary.paused],
+		[90, true],
+		"retry-after should pause polling",
+	);
+	assert.equal(
+		pollDelay(60, { ...rl(0), limit: null }, 0, NOW).sec,
+		60,
+		"unknown quota leaves the cadence alone",
+	);
+}
+
+runTrackerTest();
+runPollDelayTest();
@@ -0,0 +1,104 @@
+/** Last known REST quota of a Gh client (core resource only). */
+export interface RateLimitState {
+	limit: number | null;
+	remaining: number | null;
+	resetAt: number | null; // epoch ms when `remaining` refills
+	retryAfterUntil: number | null; // epoch ms; set by secondary-limit responses
+}
+
+export interface RateLimitTracker {
+	/** Read quota headers off a response (or an error's response). */
+	record(headers: Record<string, unknown> | undefined, status?: number): void;
+	state(): RateLimitState;
+}
+
+const num = (v: unknown): number | null => {
+	const n = Number(v);
+	return v !== undefined && v !== null && v !== "" && Number.isFinite(n)
+		? n
+		: null;
+};
+
+export function createRateLimitTracker(): RateLimitTracker {
+	const st: RateLimitState = {
+		limit: null,
+		remaining: null,
+		resetAt: null,
+		retryAfterUntil: null,
+	};
+	return {
+		record(headers, status) {
+			if (!headers) return;
+			// GraphQL and search have their own buckets; polling runs on core
+			const resource = headers["x-ratelimit-resource"];
+			if (resource === undefined || resource === "core") {
+				const remaining = num(headers["x-ratelimit-remaining"]);
+				const limit = num(headers["x-ratelimit-limit"]);
+				const reset = num(headers["x-ratelimit-reset"]);
+				if (remaining !== null) st.remaining = remaining;
+				if (limit !== null) st.limit = limit;
+				if (reset !== null) st.resetAt = reset * 1000;
+			}
+			const retryAfter = num(headers["retry-after"]);
+			if (retryAfter !== null && (status === 403 || status === 429))
+				st.retryAfterUntil = Date.now() + retryAfter * 1000;
+		},
+		state: () => ({ ...st }),
+	};
+}
+
+export interface PollDelay {
+	sec: number;
+	/** Waiting for the quota to reset or a retry-after window to pass. */
+	paused: boolean;
+	/** Why polling is slower than asked; null when it is not. */
+	throttled: string | null;
+}
+
+// Below this share of the quota, intervals stretch by slowAt/share (max 8x)
+const SLOW_AT = 0.5;
+const MAX_STRETCH = 8;
+
+/**
+ * Next poll delay for a cadence of `baseSec` given the quota: unchanged while
+ * more than half is left, stretched as it drains (never past the reset), and
+ * a pause until the reset once `remaining` drops to `reserve`.
+ */
+export function pollDelay(
+	baseSec: number,
+	rl: RateLimitState,
+	reserve = 0,
+	now = Date.now(),
+): PollDelay {
+	const untilReset = rl.resetAt ? Math.ceil((rl.resetAt - now) / 1000) : 0;
+	if (rl.retryAfterUntil && rl.retryAfterUntil > now) {
+		const sec = Math.max(baseSec, Math.ceil((rl.retryAfterUntil - now) / 1000));
+		return { sec, paused: true, throttled: "secondary rate limit" };
+	}
+	if (rl.remaining === null || !rl.limit) {
+		return { sec: baseSec, paused: false, throttled: null };
+	}
+	if (rl.remaining <= reserve && untilReset > 0) {
+		// +1s so the first request after the pause lands past the reset
+		return {
+			sec: untilReset + 1,
+			paused: true,
+			throttled: `rate limit exhausted (${rl.remaining}/${rl.limit} left)`,
+		};
+	}
+	const share = rl.remaining / rl.limit;
+	if (share >= SLOW_AT) return { sec: baseSec, paused: false, throttled: null };
+	const stretch = Math.min(MAX_STRETCH, SLOW_AT / Math.max(share, 1e-6));
+	const stretched = Math.round(baseSec * stretch);
+	const sec =
+		untilReset > 0
+			? Math.max(baseSec, Math.min(stretched, untilReset + 1))
+			: stretched;
+	return {
+		sec,
+		paused: false,
+		// Only worth an alert once polling is at least twice as slow
+		throttled:
+			stretch >= 2 ? `rate limit low (${rl.remaining}/${rl.limit} left)` : null,
+	};
+}
@@ -16,6 +16,19 @@ export function buildCommentReport(
 	);
 	lines.push("");
 
+	if (snapshot.truncated) {
+		lines.push(
+			"> Note: comments were truncated by list caps; older threads may be missing.",
+		);
+		lines.push("");
+	}
+	if (snapshot.resolvedHidden) {
+		lines.push(
+			`> ${snapshot.resolvedHidden} resolved review thread(s) hidden.`,
+		);
+		lines.push("");
+	}
+
 	lines.push(
 		`<pr-comments-detailed pr="${snapshot.prNumber}" since="${escapeXmlAttr(snapshot.sinceIso)}">`,
 	);
@@ -26,8 +39,20 @@ export function buildCommentReport(
 				typeof t.isResolved === "boolean"
 					? ` resolved="${String(t.isResolved)}"`
 					: ""
+			}${t.resolvedBy ? ` resolvedBy="${escapeXmlAttr(t.resolvedBy)}"` : ""}${
+				t.isOutdated ? ` outdated="true"` : ""
 			}>`,
 		);
+		if (t.isOutdated) {
+			lines.push(
+				"(Outdated: the code this thread refers to has changed since it was written.)",
+			);
+		}
+		if (t.diffHunk) {
+			lines.push("<diff-hunk>");
+			lines.push(t.diffHunk);
+			lines.push("</diff-hunk>");
+		}
 		for (const c of t.comments) {
 			lines.push(
 				`<comment id="${escapeXmlAttr(c.id)}" author="${escapeXmlAttr(c.author)}" createdAt="${escapeXmlAttr(
@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 
-import { escapeXmlAttr } from "./report.js";
+import { escapeXmlAttr, toRunExtract } from "./report.js";
+import type { JobBrief, RunBrief } from "./types.js";
 
 function runEscapeTest() {
 	const input = `Build "alpha" & beta's <gamma>`;
@@ -12,4 +13,56 @@ function runEscapeTest() {
 	);
 }
 
+const RUN: RunBrief = {
+	id: 1,
+	url: "",
+	status: "completed",
+	conclusion: "failure",
+	createdAt: null,
+	name: "CI",
+};
+const JOB: JobBrief = {
+	id: 2,
+	runId: 1,
+	name: "test",
+	html_url: "",
+	conclusion: "failure",
+};
+
+function runContextTest() {
+	const log = [
+		...Array.from({ length: 20 }, (_, i) => `setup ${i}`),
+		"Traceback (most recent call last):",
+		'  File "app.py", line 3, in <module>',
+		"    boom()",
+		"ValueError: bad input",
+		...Array.from({ length: 20 }, (_, i) => `noise ${i}`),
+		"expected 1, got 2",
+		"ERROR tests/test_a.py::test_x",
+		"after",
+	].join("\n");
+	const excerpt = (logContext?: object) =>
+		toRunExtract(RUN, [JOB], { 2: log }, { logContext }).jobs[0]?.excerpt;
+	assert.equal(
+		excerpt({ before: 1, after: 1 }),
+		[
+			"Traceback (most recent call last):",
+			'  File "app.py", line 3, in <module>',
+			"    boom()",
+			"ValueError: bad input",
+			"…",
+			"expected 1, got 2",
+			"ERROR tests/test_a.py::test_x",
+			"after",
+		].join("\n"),
+		"keeps whole traces and merged windows around failure lines",
+	);
+	assert.equal(
+		excerpt({ before: 0, after: 0, traces: false }),
+		"ERROR tests/test_a.py::test_x",
+		"without context only the failure lines remain",
+	);
+}
+
 runEscapeTest();
+runContextTest();
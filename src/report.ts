@@ -1,25 +1,40 @@
+import {
+	failureFingerprint,
+	failureJobs,
+	formatJobRefs,
+	groupJobs,
+	type JobRef,
+	setFingerprint,
+	textFingerprint,
+} from "./fingerprint.js";
+import { normalizeLog } from "./normalize.js";
+import { scanLog, traceBlocks } from "./parsers.js";
+import { isolateFailedSteps } from "./steps.js";
 import type {
 	BuildReportInput,
 	BuildReportOutput,
+	CiStep,
 	ExtractCounts,
 	JobBrief,
 	JobExtract,
+	LogContext,
+	LogFilters,
+	LogParserRule,
 	RunBrief,
 	RunExtract,
+	TestFailure,
 } from "./types.js";
 import { sanitizeName } from "./util.js";
 
 const MAX_LINE_CHARS = 600;
 const MAX_JOB_EXCERPT_CHARS = 12000; // per job excerpt
+const MAX_CHECK_CHARS = 4000; // per external check output
 const TRIM_SKIPPED_THRESHOLD = 15000;
 
-const RE_ERROR = /(^|[ \t])ERROR([ \t]|$)/;
-const RE_FAILED = /(^|[ \t])FAILED([ \t]|$)/;
-const RE_XFAIL = /(^|[ \t])XFAIL([ \t]|$)/;
+const DEFAULT_CONTEXT_LINES = 5; // before and after each failure line
+const MAX_TRACE_LINES = 120; // longer traces keep their head and tail
 
 const RE_SKIPPED = /\bSKIPPED\b/;
-const SHORT_SUMMARY_HEADER =
-	"=========================== short test summary info ============================";
 
 function truncateLine(s: string): string {
 	if (s.length <= MAX_LINE_CHARS) return s;
@@ -35,62 +50,75 @@ function truncateMiddle(s: string, max: number): string {
 	return `${head}\n… [truncated ${s.length - max} chars] …\n${tail}`;
 }
 
-function countInteresting(line: string): {
-	err: number;
-	fail: number;
-	xfail: number;
-} {
-	let err = 0,
-		fail = 0,
-		xfail = 0;
-	if (RE_ERROR.test(line)) err = 1;
-	if (RE_FAILED.test(line)) fail = 1;
-	if (RE_XFAIL.test(line)) xfail = 1;
-	return { err, fail, xfail };
-}
-
-function isInterestingLine(line: string): boolean {
-	return RE_ERROR.test(line) || RE_FAILED.test(line) || RE_XFAIL.test(line);
-}
-
-function extractShortSummaryBlock(text: string): string | null {
-	const idx = text.indexOf(SHORT_SUMMARY_HEADER);
-	if (idx < 0) return null;
-	// Take from header to the end of text; trimming will be applied later.
-	const block = text.slice(idx);
-	return block;
-}
-
-function curateJobExcerpt(raw: string): {
+function curateJobExcerpt(
+	raw: string,
+	ctx: {
+		workflow: string | null;
+		job: string;
+		steps?: CiStep[];
+		rules?: LogParserRule[];
+		context?: LogContext;
+	},
+): {
 	excerpt: string;
 	counts: ExtractCounts;
+	parser: string;
+	failures: TestFailure[];
+	failedSteps: string[];
 } {
-	const lines = raw.split(/\r?\n/);
+	// Only the failed steps' output; setup and passing steps are noise
+	const isolated = isolateFailedSteps(raw, ctx.steps);
+	const { parser, lines, hits, failures } = scanLog(isolated?.text ?? raw, ctx);
 
-	const kept: string[] = [];
-	let err = 0,
-		fail = 0,
-		xfail = 0;
-
-	for (const ln of lines) {
-		if (!isInterestingLine(ln)) continue;
-		const t = truncateLine(ln);
-		const c = countInteresting(t);
-		err += c.err;
-		fail += c.fail;
-		xfail += c.xfail;
-		kept.push(t);
+	const counts = { error: 0, failed: 0, xfail: 0 };
+	const keep = new Set<number>();
+	for (const h of hits) {
+		if (h.kind !== "info") counts[h.kind]++;
+		keep.add(h.index);
 	}
 
-	// Attach short summary block if present
-	const summary = extractShortSummaryBlock(raw);
-	if (summary) {
-		kept.push(""); // spacer
-		kept.push(SHORT_SUMMARY_HEADER);
-		const summaryLines = summary.split(/\r?\n/).slice(1); // skip header reprint
-		for (const ln of summaryLines) {
-			kept.push(truncateLine(ln));
+	// Then, while the job's budget lasts: whole stack traces, and the lines
+	// around each failure line (assertion diffs, the command that failed)
+	const before = ctx.context?.before ?? DEFAULT_CONTEXT_LINES;
+	const after = ctx.context?.after ?? DEFAULT_CONTEXT_LINES;
+	const extra: [number, number][] = [
+		...(ctx.context?.traces === false
+			? []
+			: traceBlocks(lines).flatMap(([a, b]): [number, number][] =>
+					b - a < MAX_TRACE_LINES
+						? [[a, b]]
+						: [
+								[a, a + MAX_TRACE_LINES / 2 - 1],
+								[b - MAX_TRACE_LINES / 2 + 1, b],
+							],
+				)),
+		...hits
+			.filter((h) => h.kind !== "info" && (before || after))
+			.map((h): [number, number] => [h.index - before, h.index + after]),
+	];
+	const cost = (i: number) => truncateLine(lines[i] ?? "").length + 1;
+	let budget = MAX_JOB_EXCERPT_CHARS;
+	for (const i of keep) budget -= cost(i);
+	for (const [a, b] of extra) {
+		const add: number[] = [];
+		let c = 0;
+		for (let i = Math.max(0, a); i <= Math.min(b, lines.length - 1); i++) {
+			if (keep.has(i)) continue;
+			add.push(i);
+			c += cost(i);
 		}
+		if (c > budget) continue;
+		budget -= c;
+		for (const i of add) keep.add(i);
+	}
+
+	const kept: string[] = isolated ? [...isolated.steps] : [];
+	let last = -1;
+	for (const i of [...keep].sort((a, b) => a - b)) {
+		// Mark skipped stretches once windows make the excerpt read as prose
+		if (extra.length && last >= 0 && i > last + 1) kept.push("…");
+		kept.push(truncateLine(lines[i] ?? ""));
+		last = i;
 	}
 
 	let excerpt = kept.join("\n");
@@ -108,21 +136,39 @@ function curateJobExcerpt(raw: string): {
 
 	// Recompute line/char counts after truncation
 	const lnCount = excerpt.length ? excerpt.split(/\r?\n/).length : 0;
-	const counts: ExtractCounts = {
-		error: err,
-		failed: fail,
-		xfail,
-		lines: lnCount,
-		chars: excerpt.length,
+	return {
+		excerpt,
+		counts: { ...counts, lines: lnCount, chars: excerpt.length },
+		parser,
+		failures,
+		failedSteps: isolated?.steps ?? [],
 	};
-	return { excerpt, counts };
 }
 
+export interface RunExtractOptions {
+	/** Failures from test-result artifacts (see junit.ts). */
+	junit?: { tests: TestFailure[]; dir: string | null };
+	/** `logParsers` from config. */
+	logParsers?: LogParserRule[];
+	/** `logFilters` from config. */
+	logFilters?: LogFilters;
+	/** `logContext` from config. */
+	logContext?: LogContext;
+}
+
+/**
+ * Curate each failing job's log, normalized and cut down to its failed steps,
+ * with the parser for its framework: failure lines, stack traces and context.
+ * With test results from artifacts, failed and error counts come from those
+ * instead of the log scan.
+ */
 export function toRunExtract(
 	run: RunBrief,
 	jobs: JobBrief[],
 	jobLogs: Record<number, string>,
+	opts: RunExtractOptions = {},
 ): RunExtract {
+	const { junit } = opts;
 	const jobExtracts: JobExtract[] = [];
 	let totalErr = 0,
 		totalFail = 0,
@@ -131,9 +177,35 @@ export function toRunExtract(
 		totalChars = 0;
 
 	for (const jb of jobs) {
-		const raw = jobLogs[jb.id] || "";
-		const { excerpt, counts } = curateJobExcerpt(raw);
-		jobExtracts.push({ job: jb, excerpt, counts });
+		const raw = normalizeLog(jobLogs[jb.id] || "", opts.logFilters);
+		const { excerpt, counts, parser, failures, failedSteps } = curateJobExcerpt(
+			raw,
+			{
+				workflow: run.name,
+				job: jb.name,
+				steps: jb.steps,
+				rules: opts.logParsers,
+				context: opts.logContext,
+			},
+		);
+		const fingerprinted = failures.map((f) => ({
+			...f,
+			fingerprint: failureFingerprint(f),
+		}));
+		const fingerprint = fingerprinted.length
+			? setFingerprint(fingerprinted.map((f) => f.fingerprint))
+			: excerpt
+				? textFingerprint(excerpt)
+				: null;
+		jobExtracts.push({
+			job: jb,
+			excerpt,
+			counts,
+			...(fingerprint ? { fingerprint } : {}),
+			...(failedSteps.length ? { failedSteps } : {}),
+			parser,
+			...(fingerprinted.length ? { failures: fingerprinted } : {}),
+		});
 		totalErr += counts.error;
 		totalFail += counts.failed;
 		totalXf += counts.xfail;
@@ -141,15 +213,44 @@ export function toRunExtract(
 		totalChars += counts.chars;
 	}
 
+	const tests = junit?.tests.length
+		? junit.tests.map((t) => ({ ...t, fingerprint: failureFingerprint(t) }))
+		: null;
 	const totalCounts: ExtractCounts = {
-		error: totalErr,
-		failed: totalFail,
+		error: tests ? tests.filter((t) => t.kind === "error").length : totalErr,
+		failed: tests
+			? tests.filter((t) => t.kind === "failure").length
+			: totalFail,
 		xfail: totalXf,
 		lines: totalLines,
 		chars: totalChars,
 	};
 
-	return { run, jobs: jobExtracts, totalCounts };
+	return {
+		run,
+		jobs: jobExtracts,
+		totalCounts,
+		...(tests
+			? { tests, ...(junit?.dir ? { testResultsDir: junit.dir } : {}) }
+			: {}),
+	};
+}
+
+function pushTestcase(lines: string[], t: TestFailure, jobs?: JobRef[]): void {
+	const where =
+		jobs && jobs.length > 1
+			? ` jobs="${escapeXmlAttr(formatJobRefs(jobs))}"`
+			: "";
+	lines.push(
+		`<testcase name="${escapeXmlAttr(t.name)}" classname="${escapeXmlAttr(t.classname ?? "")}" file="${escapeXmlAttr(t.file ?? "")}"${t.line ? ` line="${t.line}"` : ""} kind="${t.kind}"${where}>`,
+	);
+	if (t.message) lines.push(`<message>${escapeXmlAttr(t.message)}</message>`);
+	if (t.trace) {
+		lines.push("<pre>");
+		lines.push(t.trace);
+		lines.push("</pre>");
+	}
+	lines.push("</testcase>");
 }
 
 export function buildReportFilename(
@@ -174,6 +275,10 @@ export function buildMarkdownXmlReport(
 		prNumber,
 		commentsSince,
 		runExtracts,
+		failureHistory,
+		externalChecks,
+		annotations,
+		truncated,
 		ghAstGrepForRun,
 		claudeSummary,
 		flags,
@@ -195,6 +300,8 @@ export function buildMarkdownXmlReport(
 		`Repo: **${owner}/${repo}**  |  Branch: **${branch}**  |  SHA: **${sha.slice(0, 7)}**  |  Since (last push): **${sinceIso}**`,
 	);
 	if (flags.force) lines.push(`> Note: Generated with \`--force\`.`);
+	if (truncated?.length)
+		lines.push(`> Note: truncated by list caps: ${truncated.join("; ")}.`);
 	lines.push("");
 
 	// (A) PR Comments
@@ -228,9 +335,51 @@ export function buildMarkdownXmlReport(
 			"## Failing CI (runs since last push)",
 			`<ci-runs branch="${branch}" sha="${sha.slice(0, 7)}">`,
 		);
-		if (!runExtracts.length) {
+		if (failureHistory?.length) {
+			lines.push("### Failure history (recent runs of the same workflows)");
+			lines.push("<failure-history>");
+			for (const h of failureHistory) {
+				lines.push(
+					`<test name="${escapeXmlAttr(h.test)}" origin="${h.origin}" failed="${h.failedRuns}" sampled="${h.sampledRuns}">${escapeXmlAttr(h.label)}</test>`,
+				);
+			}
+			lines.push("</failure-history>");
+			lines.push("");
+		}
+		if (annotations?.length) {
+			lines.push("### Annotations (file:line diagnostics from CI)");
+			lines.push("<annotations>");
+			for (const a of annotations) {
+				lines.push(
+					`<annotation path="${escapeXmlAttr(a.path)}" line="${a.startLine}" endLine="${a.endLine}" level="${a.level}" job="${escapeXmlAttr(a.jobName)}">${escapeXmlAttr(a.title ? `${a.title}: ${a.message}` : a.message)}</annotation>`,
+				);
+			}
+			lines.push("</annotations>");
+			lines.push("");
+		}
+		if (externalChecks?.length) {
+			lines.push("### Failed external checks (no logs available)");
+			lines.push("<external-checks>");
+			for (const c of externalChecks) {
+				lines.push(
+					`<check name="${escapeXmlAttr(c.name)}" kind="${c.kind}" app="${escapeXmlAttr(c.app ?? "")}" conclusion="${c.conclusion || ""}" url="${escapeXmlAttr(c.detailsUrl ?? "")}">`,
+				);
+				const body = [c.summary, c.text].filter(Boolean).join("\n\n");
+				lines.push("<pre>");
+				lines.push(truncateMiddle(body || "(no output)", MAX_CHECK_CHARS));
+				lines.push("</pre>");
+				lines.push("</check>");
+			}
+			lines.push("</external-checks>");
+			lines.push("");
+		}
+		if (!runExtracts.length && !externalChecks?.length) {
 			lines.push("(No failing runs found in the window.)");
 		} else {
+			// Matrix copies of one failure are shown once, listing where else it hit
+			const jobGroups = groupJobs(runExtracts);
+			const failureGroups = failureJobs(runExtracts);
+			const shown = new Set<string>();
 			for (const rx of runExtracts) {
 				const r = rx.run;
 				lines.push(
@@ -244,14 +393,50 @@ export function buildMarkdownXmlReport(
 				lines.push("<gh-astgrep>");
 				lines.push(ghAstGrepForRun(r.id));
 				lines.push("</gh-astgrep>");
+				if (rx.tests?.length) {
+					lines.push(
+						`<test-results source="junit" failed="${rx.totalCounts.failed}" errors="${rx.totalCounts.error}" dir="${escapeXmlAttr(rx.testResultsDir ?? "")}">`,
+					);
+					for (const t of rx.tests) pushTestcase(lines, t);
+					lines.push("</test-results>");
+				}
 				lines.push("<jobs>");
 				for (const jx of rx.jobs) {
+					const group = jx.fingerprint
+						? (jobGroups.get(jx.fingerprint) ?? [])
+						: [];
+					const first = group[0];
+					if (first && first.jobId !== jx.job.id) {
+						lines.push(
+							`<job name="${escapeXmlAttr(jx.job.name)}" id="${jx.job.id}" conclusion="${jx.job.conclusion || ""}" same-as="${first.jobId}">(same failures as ${escapeXmlAttr(formatJobRefs([first]))})</job>`,
+						);
+						continue;
+					}
 					lines.push(
 						`<job name="${escapeXmlAttr(jx.job.name)}" id="${jx.job.id}" conclusion="${jx.job.conclusion || ""}">`,
 					);
 					lines.push(
 						`<counts error="${jx.counts.error}" failed="${jx.counts.failed}" xfail="${jx.counts.xfail}" lines="${jx.counts.lines}" chars="${jx.counts.chars}"/>`,
 					);
+					if (group.length > 1)
+						lines.push(
+							`<also-failed-in>${escapeXmlAttr(formatJobRefs(group.slice(1)))}</also-failed-in>`,
+						);
+					// Artifact results, when present, already name the failing tests
+					const fresh = (jx.failures ?? []).filter(
+						(t) => !t.fingerprint || !shown.has(t.fingerprint),
+					);
+					if (fresh.length && !rx.tests?.length) {
+						lines.push(`<failures parser="${escapeXmlAttr(jx.parser ?? "")}">`);
+						for (const t of fresh) {
+							const jobs = t.fingerprint
+								? failureGroups.get(t.fingerprint)
+								: [];
+							pushTestcase(lines, t, jobs);
+							if (t.fingerprint) shown.add(t.fingerprint);
+						}
+						lines.push("</failures>");
+					}
 					lines.push("<pre>");
 					lines.push(jx.excerpt || "(no failure lines extracted)");
 					lines.push("</pre>");
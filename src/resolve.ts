@@ -1,21 +1,23 @@
 import { promises as fs } from "node:fs";
 import * as path from "node:path";
+import { ciRepo, type ForgeProvider } from "./forge.js";
 import {
 	currentBranch,
-	originOwnerRepo,
 	remoteHeadSha,
+	repoLayout,
 	repoRoot,
 	repoRootForWorktree,
 } from "./git.js";
-import type { Gh } from "./github.js";
-import type { WatchConfig } from "./types.js";
+import type { RepoRef, WatchConfig } from "./types.js";
 import { exec } from "./util.js";
 
 export interface Target {
 	repoRoot: string;
 	worktreePath: string; // may equal repoRoot
-	owner: string;
+	owner: string; // base repo: where the PR and its comments live
 	repo: string;
+	head: RepoRef; // where the branch is pushed (origin; a fork or the base)
+	ci: RepoRef; // where CI runs for the head commits (see ciRepo)
 	localBranch: string | null;
 	remoteBranch: string | null;
 	headSha: string; // remote head sha resolved for remoteBranch
@@ -27,7 +29,7 @@ export interface ResolveOptions {
 	cwd?: string;
 	explicitWt?: string | null;
 	explicitBranch?: string | null;
-	gh: Gh;
+	gh: ForgeProvider;
 	cfg?: WatchConfig | null;
 }
 
@@ -35,7 +37,7 @@ export interface ResolveOptions {
  * Best-effort resolver:
  * - repo root
  * - worktree path (explicit ~/.worktrees mapping if provided; else repo root)
- * - owner/repo (origin)
+ * - owner/repo (base: config, else upstream remote, else origin) and head (origin)
  * - branch (explicit > local > null on detached)
  * - remote branch (upstream of local if any; else local name; else from branchesForCommit)
  * - head sha (remote)
@@ -60,11 +62,13 @@ export async function resolveTarget(opts: ResolveOptions): Promise<Target> {
 		}
 	}
 
-	// Owner/repo from origin
-	const ownerRepo = await originOwnerRepo(wtPath).catch(async () =>
-		originOwnerRepo(root),
+	// Base repo for PRs; branches live on origin, which may be a fork
+	const configured = { owner: opts.cfg?.owner, repo: opts.cfg?.repo };
+	const layout = await repoLayout(wtPath, configured).catch(async () =>
+		repoLayout(root, configured),
 	);
-	const { owner, repo } = ownerRepo;
+	const { owner, repo } = layout.base;
+	const head = layout.head;
 
 	// Prefer local branch; handle detached
 	const locBranchRaw = await currentBranch(wtPath).catch(async () =>
@@ -107,7 +111,7 @@ export async function resolveTarget(opts: ResolveOptions): Promise<Target> {
 				remoteHeadSha(root, remoteBranch!),
 			)) || null;
 		if (!headSha) {
-			headSha = await opts.gh.getBranchSha({ owner, repo }, remoteBranch);
+			headSha = await opts.gh.getBranchSha(head, remoteBranch);
 		}
 	}
 	if (!headSha) {
@@ -115,13 +119,10 @@ export async function resolveTarget(opts: ResolveOptions): Promise<Target> {
 		const headLocalSha = (
 			await exec("git", ["-C", wtPath, "rev-parse", "HEAD"])
 		).stdout.trim();
-		const branches = await opts.gh.branchesForCommit(
-			{ owner, repo },
-			headLocalSha,
-		);
+		const branches = await opts.gh.branchesForCommit(head, headLocalSha);
 		if (branches?.length) {
 			remoteBranch = branches[0] || remoteBranch;
-			headSha = await opts.gh.getBranchSha({ owner, repo }, remoteBranch!);
+			headSha = await opts.gh.getBranchSha(head, remoteBranch!);
 		}
 	}
 	if (!headSha || !remoteBranch) {
@@ -136,13 +137,13 @@ export async function resolveTarget(opts: ResolveOptions): Promise<Target> {
 		.catch(() => null);
 	if (!prNumber && remoteBranch) {
 		prNumber = await opts.gh
-			.findOpenPrForBranch({ owner, repo }, owner, remoteBranch)
+			.findOpenPrForBranch({ owner, repo }, head, remoteBranch)
 			.catch(() => null);
 	}
 
 	// Since = commit authored/committed date of headSha (fallback to 24h ago)
 	let sinceIso: string | null = await opts.gh
-		.getCommitDate({ owner, repo }, headSha)
+		.getCommitDate(head, headSha)
 		.catch(() => null);
 	if (!sinceIso) {
 		sinceIso = new Date(Date.now() - 24 * 3600 * 1000).toISOString();
@@ -153,6 +154,8 @@ export async function resolveTarget(opts: ResolveOptions): Promise<Target> {
 		worktreePath: wtPath,
 		owner,
 		repo,
+		head,
+		ci: ciRepo(opts.gh, layout),
 		localBranch,
 		remoteBranch,
 		headSha,
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+
+import { verifySignature, webhookTarget } from "./serve.js";
+
+function runSignatureTest() {
+	const body = Buffer.from('{"action":"completed"}');
+	const sig = `sha256=${createHmac("sha256", "s3cret").update(body).digest("hex")}`;
+	assert.equal(verifySignature("s3cret", body, sig), true);
+	assert.equal(verifySignature("other", body, sig), false);
+	assert.equal(verifySignature("s3cret", body, undefined), false);
+}
+
+function runTargetTest() {
+	assert.deepEqual(
+		webhookTarget("workflow_run", {
+			repository: { full_name: "o/r" },
+			workflow_run: { head_branch: "feat", pull_requests: [{ number: 7 }] },
+		}),
+		{ repo: "o/r", branch: "feat", prNumbers: [7] },
+	);
+	assert.deepEqual(
+		webhookTarget("issue_comment", { issue: { number: 7, pull_request: {} } }),
+		{ repo: null, branch: null, prNumbers: [7] },
+	);
+	assert.equal(
+		webhookTarget("issue_comment", { issue: { number: 7 } }),
+		null,
+		"comments on plain issues are not routed",
+	);
+	assert.equal(webhookTarget("push", {}), null);
+}
+
+runSignatureTest();
+runTargetTest();
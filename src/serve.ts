@@ -0,0 +1,227 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import * as http from "node:http";
+import * as path from "node:path";
+import { listControlSockets, sendControl } from "./control.js";
+import { repoLayout, repoRoot } from "./git.js";
+import type { WatchConfig } from "./types.js";
+import { readJsonc } from "./util.js";
+
+export interface ServeArgs {
+	port: number;
+	host: string;
+	secret?: string;
+}
+
+// GitHub sends payloads up to 25MB; ours only need the routing fields
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+export const WEBHOOK_EVENTS = [
+	"workflow_run",
+	"check_suite",
+	"pull_request",
+	"pull_request_review",
+	"pull_request_review_comment",
+	"issue_comment",
+] as const;
+
+interface PrRef {
+	number?: number;
+	head?: { ref?: string; sha?: string };
+}
+
+interface WebhookPayload {
+	action?: string;
+	repository?: { full_name?: string };
+	workflow_run?: {
+		head_branch?: string | null;
+		head_sha?: string;
+		pull_requests?: PrRef[];
+	};
+	check_suite?: {
+		head_branch?: string | null;
+		head_sha?: string;
+		pull_requests?: PrRef[];
+	};
+	pull_request?: PrRef;
+	issue?: { number?: number; pull_request?: unknown };
+}
+
+/** What a webhook is about; watchers match it on branch or PR number. */
+export interface WebhookTarget {
+	repo: string | null; // owner/name
+	branch: string | null;
+	prNumbers: number[];
+}
+
+/** Check `X-Hub-Signature-256` (`sha256=<hex>` HMAC of the raw body). */
+export function verifySignature(
+	secret: string,
+	body: Buffer,
+	header: string | undefined,
+): boolean {
+	if (!header?.startsWith("sha256=")) return false;
+	const expected = Buffer.from(
+		`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`,
+	);
+	const got = Buffer.from(header);
+	return got.length === expected.length && timingSafeEqual(got, expected);
+}
+
+/** Routing fields for a supported event; null for events we do not handle. */
+export function webhookTarget(
+	event: string,
+	payload: WebhookPayload,
+): WebhookTarget | null {
+	const repo = payload.repository?.full_name ?? null;
+	const prNumbers = (prs: PrRef[] | undefined) =>
+		(prs ?? []).map((p) => p.number).filter((n): n is number => !!n);
+	switch (event) {
+		case "workflow_run":
+		case "check_suite": {
+			const run = payload[event];
+			if (!run) return null;
+			return {
+				repo,
+				branch: run.head_branch ?? null,
+				prNumbers: prNumbers(run.pull_requests),
+			};
+		}
+		case "pull_request":
+		case "pull_request_review":
+		case "pull_request_review_comment": {
+			const pr = payload.pull_request;
+			if (!pr) return null;
+			return { repo, branch: pr.head?.ref ?? null, prNumbers: prNumbers([pr]) };
+		}
+		case "issue_comment":
+			// Plain issues have no watcher; only PR conversation comments count
+			if (!payload.issue?.pull_request) return null;
+			return {
+				repo,
+				branch: null,
+				prNumbers: prNumbers([{ number: payload.issue.number }]),
+			};
+		default:
+			return null;
+	}
+}
+
+/** Poke every running watcher whose worktree matches the target. */
+async function route(
+	root: string,
+	target: WebhookTarget,
+	event: string,
+): Promise<string[]> {
+	const routed: string[] = [];
+	for (const { sockPath, info } of await listControlSockets(root)) {
+		for (const w of info.worktrees) {
+			const hit =
+				(!!target.branch && w.branch === target.branch) ||
+				(!!w.prNumber && target.prNumbers.includes(w.prNumber));
+			if (!hit) continue;
+			await sendControl(sockPath, {
+				cmd: "poke",
+				worktree: info.mode === "all" ? w.worktree : undefined,
+				event,
+			});
+			routed.push(w.worktree);
+		}
+	}
+	return routed;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (c: Buffer) => {
+			size += c.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new Error("payload too large"));
+				req.destroy();
+				return;
+			}
+			chunks.push(c);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks)));
+		req.on("error", reject);
+	});
+}
+
+function reply(res: http.ServerResponse, code: number, body: unknown) {
+	res.writeHead(code, { "content-type": "application/json" });
+	res.end(`${JSON.stringify(body)}\n`);
+}
+
+/**
+ * Local receiver for GitHub webhooks. Each verified event pokes the watchers
+ * of the matching worktree (`watch --wt` or `watch --all`) so they poll now
+ * instead of after `pollSecIdle`.
+ */
+export async function runServe(args: ServeArgs) {
+	const secret = args.secret || process.env.AWT_WEBHOOK_SECRET;
+	if (!secret) {
+		process.stderr.write(
+			"awt-ci serve: set AWT_WEBHOOK_SECRET (or pass --secret) to the webhook's secret.\n",
+		);
+		process.exitCode = 1;
+		return;
+	}
+	const root = await repoRoot();
+	const cfg =
+		(await readJsonc<WatchConfig>(path.join(root, ".awt", "config.jsonc"))) ||
+		{};
+	// Webhooks come from the base repo (upstream of a fork)
+	const { owner, repo } = (await repoLayout(root, cfg)).base;
+	const fullName = `${owner}/${repo}`.toLowerCase();
+
+	const server = http.createServer(async (req, res) => {
+		if (req.method !== "POST") {
+			reply(res, 405, { error: "POST webhook payloads here" });
+			return;
+		}
+		let body: Buffer;
+		try {
+			body = await readBody(req);
+		} catch (e) {
+			reply(res, 413, { error: String((e as Error).message) });
+			return;
+		}
+		const sig = req.headers["x-hub-signature-256"];
+		if (!verifySignature(secret, body, Array.isArray(sig) ? sig[0] : sig)) {
+			reply(res, 401, { error: "bad signature" });
+			return;
+		}
+		const event = String(req.headers["x-github-event"] || "");
+		if (event === "ping") {
+			reply(res, 200, { ok: true, pong: true });
+			return;
+		}
+		let payload: WebhookPayload;
+		try {
+			payload = JSON.parse(body.toString("utf8")) as WebhookPayload;
+		} catch {
+			reply(res, 400, { error: "invalid JSON" });
+			return;
+		}
+		const target = webhookTarget(event, payload);
+		if (!target || (target.repo && target.repo.toLowerCase() !== fullName)) {
+			reply(res, 202, { event, ignored: true, routed: [] });
+			return;
+		}
+		const label = payload.action ? `${event}.${payload.action}` : event;
+		const routed = await route(root, target, label).catch(() => []);
+		process.stdout.write(
+			`${new Date().toISOString()}  ${label}  ${target.branch ?? `#${target.prNumbers.join(",#")}`} → ${routed.join(", ") || "(no watcher)"}\n`,
+		);
+		reply(res, 202, { event: label, routed });
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(args.port, args.host, () => resolve());
+	});
+	process.stdout.write(
+		`awt-ci serve: listening on http://${args.host}:${args.port}/ for ${fullName} (${WEBHOOK_EVENTS.join(", ")})\n`,
+	);
+}
@@ -0,0 +1,155 @@
+import { spawn } from "node:child_process";
+import {
+	type ControlInfo,
+	listControlSockets,
+	pidAlive,
+	sendControl,
+	type WatcherStatus,
+} from "./control.js";
+import { repoRoot } from "./git.js";
+import { color, sleep } from "./util.js";
+
+export interface ControlArgs {
+	wt?: string;
+	all?: boolean;
+	json?: boolean;
+}
+
+function servesWorktree(info: ControlInfo, wt: string): boolean {
+	return info.worktrees.some((w) => w.worktree === wt);
+}
+
+function formatStatusLine(info: ControlInfo, w: WatcherStatus): string {
+	const ci = w.lastCiConclusion
+		? w.lastCiConclusion === "success"
+			? color("green", w.lastCiConclusion)
+			: color("red", w.lastCiConclusion)
+		: "-";
+	return [
+		`${color("bold", w.worktree)}  (pid ${info.pid}${info.mode === "all" ? ", --all" : ""})`,
+		`  branch:      ${w.branch ?? "-"}`,
+		`  PR:          ${w.prNumber ? `#${w.prNumber}` : "-"}`,
+		`  last CI:     ${ci}`,
+		`  last paste:  ${w.lastPasteAt ?? "-"}`,
+		`  last error:  ${w.lastError ? `${color("yellow", w.lastError)} (${w.lastErrorAt ?? "?"})` : "-"}`,
+	].join("\n");
+}
+
+export async function runStatus(args: ControlArgs) {
+	const root = await repoRoot();
+	const live = await listControlSockets(root);
+	const infos = live
+		.map((l) => l.info)
+		.filter((info) => !args.wt || servesWorktree(info, args.wt));
+	if (args.json) {
+		process.stdout.write(`${JSON.stringify(infos, null, 2)}\n`);
+		return;
+	}
+	if (!infos.length) {
+		process.stdout.write(
+			args.wt
+				? `No watcher running for worktree '${args.wt}'.\n`
+				: "No watchers running for this repo.\n",
+		);
+		return;
+	}
+	for (const info of infos) {
+		if (!info.worktrees.length) {
+			process.stdout.write(
+				`(pid ${info.pid}, --all) no worktrees watched yet\n\n`,
+			);
+		}
+		for (const w of info.worktrees) {
+			if (args.wt && w.worktree !== args.wt) continue;
+			process.stdout.write(`${formatStatusLine(info, w)}\n\n`);
+		}
+		if (info.ghCache) process.stdout.write(`${formatCacheLine(info)}\n\n`);
+		if (info.rateLimit?.limit)
+			process.stdout.write(`${formatRateLine(info)}\n\n`);
+	}
+}
+
+function formatCacheLine(info: ControlInfo): string {
+	const { hits = 0, misses = 0 } = info.ghCache ?? {};
+	const pct = hits + misses ? Math.round((hits / (hits + misses)) * 100) : 0;
+	return color(
+		"dim",
+		`(pid ${info.pid}) GitHub cache: ${hits} hits / ${misses} misses (${pct}% of GETs answered with 304)`,
+	);
+}
+
+function formatRateLine(info: ControlInfo): string {
+	const { limit, remaining, resetAt } = info.rateLimit ?? {};
+	const reset = resetAt ? new Date(resetAt).toLocaleTimeString() : "?";
+	return color(
+		remaining && limit && remaining / limit >= 0.5 ? "dim" : "yellow",
+		`(pid ${info.pid}) GitHub quota: ${remaining ?? "?"}/${limit} left, resets at ${reset}`,
+	);
+}
+
+async function waitForExit(pid: number, timeoutMs = 10000): Promise<boolean> {
+	const deadline = Date.now() + timeoutMs;
+	while (Date.now() < deadline) {
+		if (!pidAlive(pid)) return true;
+		await sleep(200);
+	}
+	return !pidAlive(pid);
+}
+
+/**
+ * Stop watchers. With --wt, a single-worktree watcher exits and a `--all`
+ * supervisor just stops watching that worktree; with --all every watcher exits.
+ */
+export async function runStop(args: ControlArgs) {
+	const root = await repoRoot();
+	const live = await listControlSockets(root);
+	let stopped = 0;
+	for (const { sockPath, info } of live) {
+		if (args.wt && !servesWorktree(info, args.wt)) continue;
+		const releaseOnly = !!args.wt && info.mode === "all";
+		await sendControl(sockPath, {
+			cmd: "stop",
+			worktree: releaseOnly ? args.wt : undefined,
+		});
+		if (!releaseOnly) await waitForExit(info.pid);
+		stopped += 1;
+		process.stdout.write(
+			releaseOnly
+				? `Released worktree '${args.wt}' from supervisor (pid ${info.pid}).\n`
+				: `Stopped watcher pid ${info.pid}.\n`,
+		);
+	}
+	if (!stopped) process.stdout.write("No matching watcher running.\n");
+}
+
+/**
+ * Restart watchers by stopping them and re-launching with their original
+ * arguments. A `--all` supervisor is restarted as a whole.
+ */
+export async function runRestart(args: ControlArgs) {
+	const root = await repoRoot();
+	const live = await listControlSockets(root);
+	let restarted = 0;
+	for (const { sockPath, info } of live) {
+		if (args.wt && !servesWorktree(info, args.wt)) continue;
+		await sendControl(sockPath, { cmd: "stop" });
+		if (!(await waitForExit(info.pid))) {
+			process.stderr.write(
+				`Watcher pid ${info.pid} did not exit; not restarting it.\n`,
+			);
+			continue;
+		}
+		const child = spawn(process.execPath, info.argv, {
+			detached: true,
+			stdio: "ignore",
+			cwd: info.cwd,
+			env: process.env,
+		});
+		child.unref();
+		restarted += 1;
+		process.stdout.write(
+			`Restarted watcher pid ${info.pid} → ${child.pid ?? "?"}.\n`,
+		);
+	}
+	if (!restarted) process.stdout.write("No matching watcher running.\n");
+}
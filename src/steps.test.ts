@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+
+import { normalizeLog } from "./normalize.js";
+import { isolateFailedSteps, segmentSteps } from "./steps.js";
+import type { CiStep } from "./types.js";
+
+const LOG =
+	normalizeLog(`2024-05-01T10:00:00.0000000Z Current runner version: '2.316.0'
+2024-05-01T10:00:00.1000000Z Download action repository 'actions/checkout@v4'
+2024-05-01T10:00:01.0000000Z ##[group]Run actions/checkout@v4
+2024-05-01T10:00:01.1000000Z Syncing repository: o/r
+2024-05-01T10:00:02.0000000Z ##[group]Run npm test
+2024-05-01T10:00:02.1000000Z npm test
+2024-05-01T10:00:02.2000000Z ##[endgroup]
+2024-05-01T10:04:14.0000000Z FAIL src/a.test.ts
+2024-05-01T10:04:14.1000000Z ##[error]Process completed with exit code 1.
+2024-05-01T10:04:15.0000000Z Post job cleanup.
+2024-05-01T10:04:15.1000000Z [command]/usr/bin/git version
+2024-05-01T10:04:16.0000000Z Cleaning up orphan processes`);
+
+function step(
+	number: number,
+	name: string,
+	conclusion: string,
+	startedAt: string | null = null,
+	completedAt: string | null = null,
+): CiStep {
+	return {
+		number,
+		name,
+		status: "completed",
+		conclusion,
+		startedAt,
+		completedAt,
+	};
+}
+
+const STEPS: CiStep[] = [
+	step(1, "Set up job", "success"),
+	step(2, "Checkout", "success"),
+	step(3, "Lint", "skipped"),
+	step(
+		4,
+		"Run tests",
+		"failure",
+		"2024-05-01T10:00:02Z",
+		"2024-05-01T10:04:14Z",
+	),
+	step(5, "Post Checkout", "success"),
+	step(6, "Complete job", "success"),
+];
+
+function runSegmentTest() {
+	const segs = segmentSteps(LOG, STEPS);
+	assert.deepEqual(
+		segs.map((s) => [s.name, s.lines.length]),
+		[
+			["Set up job", 2],
+			["Checkout", 2],
+			["Run tests", 5],
+			["Post Checkout", 2],
+			["Complete job", 1],
+		],
+	);
+	// Without a step list, segments keep their log headers
+	assert.deepEqual(
+		segmentSteps(LOG).map((s) => s.name),
+		[
+			"Set up job",
+			"Run actions/checkout@v4",
+			"Run npm test",
+			"Post job cleanup",
+			"Cleaning up orphan processes",
+		],
+	);
+}
+
+function runIsolateTest() {
+	const out = isolateFailedSteps(LOG, STEPS);
+	assert.deepEqual(out?.steps, ["step 'Run tests' failed after 4m12s"]);
+	assert.match(out?.text ?? "", /FAIL src\/a\.test\.ts/);
+	assert.doesNotMatch(out?.text ?? "", /Syncing repository|runner version/);
+	// No step list: the step that printed ##[error] is the failed one
+	assert.deepEqual(isolateFailedSteps(LOG)?.steps, [
+		"step 'Run npm test' failed",
+	]);
+	// Nothing to cut: no step markers, or no failed step
+	assert.equal(isolateFailedSteps("just\na log"), null);
+	assert.equal(
+		isolateFailedSteps(
+			LOG.replace("##[error]", ""),
+			STEPS.map((s) => ({ ...s, conclusion: "success" })),
+		),
+		null,
+	);
+}
+
+runSegmentTest();
+runIsolateTest();
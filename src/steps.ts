@@ -0,0 +1,104 @@
+import type { CiStep } from "./types.js";
+
+// Where the runner starts a step's output in the raw job log
+const RE_STEP_START =
+	/^(?:##\[group\]Run .*|Post job cleanup\.|Cleaning up orphan processes)$/;
+const FAILURE_LIKE = new Set(["failure", "timed_out", "cancelled"]);
+
+/** A step's slice of a raw Actions job log. */
+export interface LogSegment {
+	name: string; // step name, or the "Run …" header when the step list is unknown
+	step: CiStep | null;
+	lines: string[];
+}
+
+/** A job log cut down to its failed steps, each headed by a one-line label. */
+export interface FailedStepsLog {
+	text: string;
+	steps: string[]; // labels, e.g. "step 'Run tests' failed after 4m12s"
+}
+
+/**
+ * Split an Actions job log (normalizeLog output) into steps. The log before the first `Run` header
+ * is "Set up job". Segments pair with the steps that ran, in order, when the
+ * counts agree; otherwise by their default `Run <command>` names.
+ */
+export function segmentSteps(raw: string, steps: CiStep[] = []): LogSegment[] {
+	const segments: LogSegment[] = [];
+	let cur: LogSegment = { name: "Set up job", step: null, lines: [] };
+	for (const ln of raw.split(/\r?\n/)) {
+		if (RE_STEP_START.test(ln)) {
+			segments.push(cur);
+			cur = {
+				name: ln.replace(/^##\[group\]/, "").replace(/\.$/, ""),
+				step: null,
+				lines: [],
+			};
+		}
+		cur.lines.push(ln);
+	}
+	segments.push(cur);
+
+	const ran = steps
+		.filter((s) => s.conclusion !== "skipped" && s.status !== "queued")
+		.sort((a, b) => a.number - b.number);
+	if (ran.length === segments.length) {
+		segments.forEach((seg, i) => {
+			seg.step = ran[i] ?? null;
+			seg.name = seg.step?.name ?? seg.name;
+		});
+	} else {
+		let from = 0;
+		for (const seg of segments) {
+			const at = ran.findIndex((s, i) => i >= from && s.name === seg.name);
+			if (at < 0) continue;
+			seg.step = ran[at] ?? null;
+			from = at + 1;
+		}
+	}
+	return segments;
+}
+
+function duration(step: CiStep | null): string | null {
+	if (!step?.startedAt || !step.completedAt) return null;
+	const sec = Math.round(
+		(Date.parse(step.completedAt) - Date.parse(step.startedAt)) / 1000,
+	);
+	if (!Number.isFinite(sec) || sec < 0) return null;
+	const h = Math.floor(sec / 3600);
+	const m = Math.floor((sec % 3600) / 60);
+	const s = sec % 60;
+	return h ? `${h}h${m}m` : m ? `${m}m${s}s` : `${s}s`;
+}
+
+/**
+ * The failed steps of a job log, so setup and passing steps stay out of
+ * excerpts and prompts. A step failed when the step list says so, or, for
+ * steps it could not be paired with, when it printed an `##[error]` line.
+ * Null when no step stands out (e.g. GitLab traces, logs cut short).
+ */
+export function isolateFailedSteps(
+	raw: string,
+	steps: CiStep[] = [],
+): FailedStepsLog | null {
+	const segments = segmentSteps(raw, steps);
+	if (segments.length < 2) return null;
+	const failed = segments.filter((seg) =>
+		seg.step
+			? FAILURE_LIKE.has(seg.step.conclusion ?? "")
+			: seg.lines.some((l) => l.startsWith("##[error]")),
+	);
+	if (!failed.length || failed.length === segments.length) return null;
+	const labels = failed.map((seg) => {
+		const took = duration(seg.step);
+		const verb =
+			seg.step?.conclusion === "cancelled" ? "was cancelled" : "failed";
+		return `step '${seg.name}' ${verb}${took ? ` after ${took}` : ""}`;
+	});
+	return {
+		text: failed
+			.map((seg, i) => [`===== ${labels[i]} =====`, ...seg.lines].join("\n"))
+			.join("\n"),
+		steps: labels,
+	};
+}
@@ -1,4 +1,19 @@
-import type { Engine, FailureBundle, RepoRef } from "./types.js";
+import { formatAnnotations, formatExternalChecks } from "./ci.js";
+import {
+	dedupeLogs,
+	type FailureDelta,
+	formatFailureDelta,
+} from "./fingerprint.js";
+import { formatFailureHistory } from "./history.js";
+import type {
+	Annotation,
+	ConflictFile,
+	Engine,
+	ExternalCheck,
+	FailureBundle,
+	RepoRef,
+	TestHistory,
+} from "./types.js";
 
 // Optional Gemini fallback
 type GoogleAI = {
@@ -21,7 +36,9 @@ export async function summarizeFailures(
 	engine: Engine,
 	opts: { cwd: string; repo: RepoRef },
 ): Promise<string> {
-	const prompt = buildClaudePrompt(bundle, opts.repo);
+	// One log per distinct failure set; matrix copies only add tokens
+	const deduped = { ...bundle, logs: dedupeLogs(bundle.logs) };
+	const prompt = buildClaudePrompt(deduped, opts.repo);
 	try {
 		// Ensure subscription-based auth (Claude Code runtime) and avoid API billing
 		const env = process.env as Record<string, string | undefined>;
@@ -48,11 +65,11 @@ export async function summarizeFailures(
 	}
 	// Try Gemini if preferred or available
 	if (engine === "gemini" || process.env.GOOGLE_API_KEY) {
-		const text = buildGeminiPrompt(bundle, opts.repo);
+		const text = buildGeminiPrompt(deduped, opts.repo);
 		const g = await runGemini(text);
 		if (g) return g;
 	}
-	return heuristicSummary(bundle, opts.repo);
+	return heuristicSummary(deduped, opts.repo);
 }
 
 export async function summarizeErrorExcerptText(
@@ -170,12 +187,31 @@ function buildClaudePrompt(bundle: FailureBundle, repo: RepoRef): string {
 		header.join("\n"),
 		"\nCI runs:",
 		runs,
+		...externalChecksSection(bundle),
+		...annotationsSection(bundle),
 		`\nIf needed, retrieve full logs locally with:\n${ghHints}`,
 		"\nLogs (tail, truncated):",
 		logs.join("\n"),
 	].join("\n");
 }
 
+// Failed non-Actions checks: output and link only, there are no logs to read
+function externalChecksSection(bundle: FailureBundle): string[] {
+	if (!bundle.checks?.length) return [];
+	return [
+		"\nFailed external checks (no logs; output as reported by the check):",
+		formatExternalChecks(bundle.checks),
+	];
+}
+
+function annotationsSection(bundle: FailureBundle): string[] {
+	if (!bundle.annotations?.length) return [];
+	return [
+		"\nCheck annotations (file:line diagnostics reported by the failed jobs):",
+		formatAnnotations(bundle.annotations),
+	];
+}
+
 function buildGeminiPrompt(bundle: FailureBundle, repo: RepoRef): string {
 	// Use a text-only prompt containing the same info
 	const intro = `You are assisting as a senior engineer triaging CI failures for ${repo.owner}/${repo.repo}. For each failed job, list failing tests/files (with file::line where visible), include key quoted log lines, likely root cause, minimal next actions, and exact gh commands to inspect details. Include suggested ast-grep queries where helpful.`;
@@ -196,6 +232,8 @@ function buildGeminiPrompt(bundle: FailureBundle, repo: RepoRef): string {
 		intro,
 		"\nCI runs:",
 		runs,
+		...externalChecksSection(bundle),
+		...annotationsSection(bundle),
 		"\nCommands:",
 		hints,
 		"\nLogs:",
@@ -329,6 +367,8 @@ function heuristicSummary(bundle: FailureBundle, repo: RepoRef): string {
 		out.push("Runs:");
 		out.push(...bundle.runs.map((r) => `- ${r.url} (${r.conclusion || "?"})`));
 	}
+	out.push(...externalChecksSection(bundle));
+	out.push(...annotationsSection(bundle));
 	for (const l of bundle.logs) {
 		out.push(`\n--- Job ${l.jobName} (run ${l.runId}) ---`);
 		const interesting = l.text
@@ -359,9 +399,18 @@ export async function buildAgentPayload(args: {
 	debugPrompt: string;
 	runs: { url: string; conclusion: string | null }[];
 	summaryEngine?: string;
-	logs?: { jobId: number; runId: number; jobName: string; text: string }[];
-	conflictFiles?: string[];
+	logs?: FailureBundle["logs"];
+	conflictFiles?: ConflictFile[];
+	baseRef?: string;
+	baseRemote?: string; // remote holding baseRef (upstream for forks)
 	pushedAtIso?: string;
+	failureHistory?: TestHistory[];
+	failureDelta?: FailureDelta | null; // vs. the previous failing push
+	checks?: ExternalCheck[]; // failed external checks (FailureBundle.checks)
+	annotations?: Annotation[]; // FailureBundle.annotations
+	truncated?: string[]; // lists cut off by caps (FailureBundle.truncated)
+	// Consolidated review threads (buildCommentReport markdown); replaces `comments` when set
+	review?: string;
 }): Promise<{ sentinel: string; text: string }> {
 	const sentinel =
 		args.prNumber && args.prNumber > 0
@@ -379,16 +428,52 @@ export async function buildAgentPayload(args: {
 		lines.push(
 			`Runs: ${args.runs.map((r) => `${r.url} (${r.conclusion || "?"})`).join(", ")}`,
 		);
+	if (args.truncated?.length)
+		lines.push(
+			`Note: results were truncated (${args.truncated.join("; ")}); open the runs above for the rest.`,
+		);
 	if (args.conflictFiles?.length) {
-		lines.push("\nMerge conflicts detected. Suggested focus files:");
-		for (const f of args.conflictFiles) lines.push(`- ${f}`);
+		const base = args.baseRef || "main";
+		lines.push(
+			`\nMerge conflicts with ${base} (${args.conflictFiles.length} file(s)):`,
+		);
+		for (const f of args.conflictFiles) {
+			lines.push(`- ${f.path}`);
+			if (f.excerpt) {
+				lines.push("<pre>");
+				lines.push(f.excerpt);
+				lines.push("</pre>");
+			}
+		}
+		const remote = args.baseRemote || "origin";
 		lines.push(
-			"\nPlease rebase on main: git fetch origin && git rebase origin/main",
+			`\nPlease rebase on ${base}: git fetch ${remote} && git rebase ${remote}/${base}`,
 		);
 	}
+	if (args.failureDelta) lines.push(formatFailureDelta(args.failureDelta));
 	lines.push("\n## Summary of Failures");
 	lines.push(args.failureSummary);
-	if (args.prNumber && args.prNumber > 0 && args.comments?.length) {
+	if (args.annotations?.length) {
+		lines.push("\n## Annotations (file:line diagnostics from CI)");
+		lines.push("<annotations>");
+		lines.push(formatAnnotations(args.annotations));
+		lines.push("</annotations>");
+	}
+	if (args.checks?.length) {
+		lines.push("\n## Failed external checks (no logs available)");
+		lines.push(formatExternalChecks(args.checks));
+	}
+	if (args.failureHistory?.length) {
+		lines.push("\n## Failure history (recent runs on other branches)");
+		lines.push(formatFailureHistory(args.failureHistory));
+		lines.push(
+			"Focus on failures that are new in this PR; ones also failing on the default branch or intermittent elsewhere were likely not caused by this change.",
+		);
+	}
+	if (args.prNumber && args.prNumber > 0 && args.review) {
+		lines.push(`\n## Review feedback since ${args.pushedAtIso || "last push"}`);
+		lines.push(args.review);
+	} else if (args.prNumber && args.prNumber > 0 && args.comments?.length) {
 		lines.push(`\n## Comments since ${args.pushedAtIso || "last push"}`);
 		for (const c of args.comments)
 			lines.push(`- @${c.author} (${c.createdAt}): ${c.body} — ${c.url}`);
@@ -396,7 +481,7 @@ export async function buildAgentPayload(args: {
 	if (args.logs?.length) {
 		lines.push("\n## Raw Logs (truncated)");
 		lines.push("<ci-logs>");
-		for (const l of args.logs) {
+		for (const l of dedupeLogs(args.logs)) {
 			lines.push(`\n--- Job ${l.jobName} (run ${l.runId}, job ${l.jobId}) ---`);
 			lines.push("<pre>");
 			lines.push(l.text);
@@ -408,3 +493,28 @@ export async function buildAgentPayload(args: {
 	lines.push(`\n<sentinel:${sentinel}>`);
 	return { sentinel, text: lines.join("\n") };
 }
+
+/**
+ * Payload for review feedback that settled without a CI failure.
+ * The digest keeps the sentinel unique across several review pastes per sha.
+ */
+export function buildReviewPayload(args: {
+	prNumber: number;
+	sha: string;
+	review: string;
+	digest: string;
+	sinceIso: string;
+}): { sentinel: string; text: string } {
+	const sentinel = `AWT-REVIEW-${args.prNumber}-${args.sha.slice(0, 7)}-${args.digest.slice(0, 6)}`;
+	const lines: string[] = [];
+	lines.push(
+		`# Review feedback for PR #${args.prNumber} on ${args.sha.slice(0, 7)}`,
+	);
+	lines.push(`New review activity since ${args.sinceIso} has settled.`);
+	lines.push(args.review);
+	lines.push(
+		"\n## Next actions\nAddress each unresolved thread above: make the requested changes (or explain why not), then push to the same branch.",
+	);
+	lines.push(`\n<sentinel:${sentinel}>`);
+	return { sentinel, text: lines.join("\n") };
+}
@@ -0,0 +1,136 @@
+import { controlSocketPath, startControlServer } from "./control.js";
+import { createEventLog } from "./events.js";
+import { listWorktrees } from "./git.js";
+import { acquireLock, tryAcquireLock } from "./lock.js";
+import { createWaker } from "./util.js";
+import {
+	createWorktreeWatcher,
+	jitterSec,
+	loadWatchContext,
+	type WatchOptions,
+	type WorktreeWatcher,
+} from "./watch.js";
+
+interface Supervised {
+	watcher: WorktreeWatcher;
+	dueAt: number;
+	release: () => Promise<void>;
+}
+
+/**
+ * Watch every worktree of the repo from a single process.
+ * All watchers share one Gh client and one poll schedule; worktrees that
+ * appear or disappear under ~/.worktrees/<repo>/ are picked up on rescan.
+ */
+export async function superviseAll(
+	opts: Omit<WatchOptions, "worktree" | "eventMode">,
+) {
+	const ctx = await loadWatchContext();
+	const scanMs = (ctx.cfg.worktreeScanSec ?? 30) * 1000;
+	const watchers = new Map<string, Supervised>();
+	// Worktrees whose watcher could not start (e.g. no multiplexer window yet); retried each rescan
+	const failing = new Map<string, string>();
+	// Worktrees released via `awt-ci stop --wt`; not picked up again until restart
+	const released = new Set<string>();
+	let lastScan = 0;
+	const waker = createWaker();
+
+	const startedAt = new Date().toISOString();
+	await startControlServer(controlSocketPath(ctx.root, "all"), {
+		status: () => ({
+			pid: process.pid,
+			startedAt,
+			mode: "all",
+			cwd: process.cwd(),
+			argv: process.argv.slice(1),
+			worktrees: Array.from(watchers.values()).map((e) => e.watcher.status()),
+			ghCache: ctx.gh.cacheStats(),
+			rateLimit: ctx.gh.rateLimit(),
+		}),
+		stop: async (wt) => {
+			if (!wt) process.exit(0);
+			released.add(wt);
+			await drop(wt);
+			failing.delete(wt);
+		},
+		poke: (wt, event) => {
+			for (const [name, entry] of watchers) {
+				if (wt && name !== wt) continue;
+				entry.watcher.poke(event);
+				entry.dueAt = 0;
+			}
+			waker.wake();
+		},
+	});
+
+	async function drop(wt: string) {
+		const entry = watchers.get(wt);
+		watchers.delete(wt);
+		await entry?.release().catch(() => {});
+	}
+
+	/** Take the worktree lock; another live watcher keeps it unless --replace. */
+	async function lockWorktree(wt: string): Promise<() => Promise<void>> {
+		if (opts.replace) return acquireLock(ctx.root, wt, { replace: true });
+		const res = await tryAcquireLock(ctx.root, wt);
+		if ("holder" in res) {
+			throw new Error(`already watched by pid ${res.holder.pid}`);
+		}
+		return res.release;
+	}
+
+	async function rescan() {
+		const names = await listWorktrees(ctx.repoBase);
+		for (const wt of watchers.keys()) {
+			if (!names.includes(wt)) {
+				await drop(wt);
+				process.stderr.write(
+					`awt-ci: stopped watching removed worktree ${wt}\n`,
+				);
+			}
+		}
+		for (const wt of failing.keys()) {
+			if (!names.includes(wt)) failing.delete(wt);
+		}
+		for (const wt of names) {
+			if (watchers.has(wt) || released.has(wt)) continue;
+			let release: (() => Promise<void>) | null = null;
+			try {
+				release = await lockWorktree(wt);
+				const watcher = await createWorktreeWatcher(ctx, {
+					...opts,
+					worktree: wt,
+				});
+				watchers.set(wt, { watcher, dueAt: 0, release });
+				failing.delete(wt);
+				process.stderr.write(`awt-ci: watching worktree ${wt}\n`);
+			} catch (e) {
+				await release?.().catch(() => {});
+				const msg = String((e as Error)?.message || e);
+				// Report each distinct failure once to avoid spamming on every rescan
+				if (failing.get(wt) !== msg) {
+					process.stderr.write(`awt-ci: cannot watch ${wt}: ${msg}\n`);
+					createEventLog(ctx.root, wt).error("supervisor.start", e);
+				}
+				failing.set(wt, msg);
+			}
+		}
+	}
+
+	while (true) {
+		if (Date.now() - lastScan >= scanMs) {
+			await rescan().catch(() => {});
+			lastScan = Date.now();
+		}
+		for (const entry of watchers.values()) {
+			if (entry.dueAt > Date.now()) continue;
+			const baseSec = await entry.watcher.tick();
+			entry.dueAt = Date.now() + jitterSec(baseSec) * 1000;
+		}
+		let nextAt = lastScan + scanMs;
+		for (const entry of watchers.values()) {
+			nextAt = Math.min(nextAt, entry.dueAt);
+		}
+		await waker.sleep(Math.max(1000, nextAt - Date.now()));
+	}
+}
@@ -1,5 +1,11 @@
 export type Engine = "claude" | "gemini";
 
+/** One capped list result; `truncated` means the server had more items. */
+export interface Paged<T> {
+	items: T[];
+	truncated: boolean;
+}
+
 export interface RepoRef {
 	owner: string;
 	repo: string;
@@ -12,14 +18,48 @@ export interface AwtState {
 	last_ci_seen_for_sha?: string;
 	last_ci_conclusion?: string;
 
+	// Review settle detection: when the comment digest last changed, what was pasted, and when
 	last_comment_seen_at_for_sha?: Record<string, string>;
 	last_consolidated_digest_for_sha?: Record<string, string>;
+	last_consolidated_at_for_sha?: Record<string, string>;
 	last_comments_digest_for_sha?: Record<string, string>;
+
+	// Flaky-failure re-runs started per sha (see WatchConfig.flakyRerun)
+	flaky_reruns_for_sha?: Record<string, FlakyRerunRecord>;
+
+	// Failure fingerprints (see fingerprint.ts) of the last failing push
+	last_failure_fingerprints?: { sha: string; fingerprints: string[] };
+
+	// Last conflict dry run; redone (and re-pasted) only when either sha moves
+	last_conflict_check?: {
+		head_sha: string;
+		base_sha: string | null;
+		conflicts: ConflictFile[];
+		pasted: boolean;
+	};
+}
+
+export interface FlakyRerunRecord {
+	attempts: number;
+	history: {
+		at: string;
+		runs: { id: number; attempt: number }[]; // run attempt before the re-run
+		matched: string[]; // flake patterns that matched
+	}[];
+}
+
+export interface FlakyRerunPolicy {
+	patterns?: string[]; // regexes (case-insensitive); default: runner/infra flakes
+	network?: boolean; // also treat network errors (ECONNRESET, 502, …) as flakes
+	maxAttempts?: number; // re-runs per sha before pasting anyway (default 1)
 }
 
 export interface WatchConfig {
 	owner?: string;
 	repo?: string;
+	forge?: "github" | "gitlab"; // default: gitlab when the host name says so
+	host?: string; // GitHub Enterprise Server / GitLab host; default: origin remote's host
+	apiBaseUrl?: string; // REST root, e.g. https://ghe.example.com/api/v3
 	promptPath?: string;
 	engine?: Engine;
 	summarizePerJobKB?: number;
@@ -31,6 +71,7 @@ export interface WatchConfig {
 	maxRecentComments?: number;
 	conflictHints?: "simple" | "simple+recent-base";
 	worktreeSetupCommands?: string[];
+	worktreeScanSec?: number;
 
 	preferGraphQL?: boolean;
 	commentsQuietSec?: number;
@@ -40,14 +81,237 @@ export interface WatchConfig {
 	emitCiJson?: boolean;
 	emitCommentsJson?: boolean;
 	deprecations?: boolean;
+	flakyRerun?: FlakyRerunPolicy;
+	failureHistory?: FailureHistoryPolicy;
+	rateLimitReserve?: number; // pause polling at this many requests left (default 0)
+	logParsers?: LogParserRule[]; // first match wins; unmatched jobs auto-detect
+	logFilters?: LogFilters;
+	logContext?: LogContext;
+}
+
+/** What job excerpts keep besides the failure lines themselves. */
+export interface LogContext {
+	before?: number; // lines before each failure line (default 5)
+	after?: number; // lines after (default 5)
+	traces?: boolean; // keep whole stack traces (default true)
+}
+
+/** Extra log normalization (see normalize.ts); patterns are regexes. */
+export interface LogFilters {
+	drop?: string[]; // lines to remove before curation
+	keep?: string[]; // lines never dropped or collapsed
+}
+
+/** Pins a log parser to jobs; patterns are case-insensitive regexes. */
+export interface LogParserRule {
+	workflow?: string; // matched against the workflow (pipeline) name
+	job?: string; // matched against the job name
+	parser: string; // pytest|jest|vitest|go|cargo|mocha|gradle
+}
+
+export interface FailureHistoryPolicy {
+	maxRuns?: number; // recent runs of the same workflow to sample (0 disables)
+	lookbackDays?: number;
+}
+
+export interface ConflictFile {
+	path: string;
+	excerpt?: string; // first conflict hunk(s) with markers, trimmed
 }
 
 export interface FailureBundle {
 	sha: string;
 	prNumber: number;
-	runs: { id: number; url: string; conclusion: string | null }[];
+	runs: {
+		id: number;
+		url: string;
+		conclusion: string | null;
+		workflowId?: number | null;
+	}[];
 	jobs: { id: number; runId: number; name: string; html_url: string }[];
-	logs: { jobId: number; runId: number; jobName: string; text: string }[];
+	logs: {
+		jobId: number;
+		runId: number;
+		jobName: string;
+		text: string;
+		fingerprint?: string; // of the job's failure set; equal logs are shown once
+	}[];
+	fingerprints?: string[]; // distinct failures across all jobs
+	checks?: ExternalCheck[]; // failed non-Actions checks; they have no logs
+	annotations?: Annotation[]; // file:line diagnostics of the failed jobs
+	truncated?: string[]; // lists cut off by caps, e.g. "jobs of run #123"
+}
+
+/** A check-run annotation (eslint, tsc problem matcher, …) of a failed job. */
+export interface Annotation {
+	jobId: number; // Actions job id (= check run id)
+	jobName: string;
+	path: string;
+	startLine: number;
+	endLine: number;
+	level: "notice" | "warning" | "failure";
+	title: string | null;
+	message: string;
+}
+
+/**
+ * A check run from another app (Buildkite, CircleCI, …) or a commit status
+ * (e.g. codecov). Only their output and a link are available, not logs.
+ */
+export interface ExternalCheck {
+	kind: "check_run" | "status";
+	name: string; // check name or status context
+	app: string | null; // check run app slug; null for statuses
+	status: string; // queued|in_progress|completed
+	conclusion: string | null; // success|failure|neutral|…; error statuses map to failure
+	detailsUrl: string | null;
+	summary: string | null; // check output title/summary, or status description
+	text: string | null; // check output text
+}
+
+// Records returned by a ForgeProvider; GitLab pipelines are "runs", MRs "PRs"
+
+export interface PrCommentItem {
+	author: string;
+	createdAt: string;
+	body: string;
+	url: string;
+}
+
+export interface PrLite {
+	mergeable_state: string | null; // clean|dirty|behind|blocked|unknown|…
+	headSha: string;
+	baseRef: string;
+	baseSha: string | null; // tip of baseRef as the forge last saw it
+	html_url: string;
+}
+
+export interface PrFile {
+	filename: string;
+	status: string;
+	additions: number;
+	changes: number;
+}
+
+export interface CiRun {
+	id: number;
+	url: string;
+	status: string; // queued|in_progress|completed
+	conclusion: string | null;
+	createdAt: string | null;
+	attempt: number;
+	workflowId: number | null;
+}
+
+/** Runs and external checks of a sha with one verdict (null while pending). */
+export interface CiStatus {
+	conclusion: string | null;
+	runs: CiRun[];
+	checks: ExternalCheck[];
+	truncated: boolean;
+}
+
+export interface WorkflowRun {
+	id: number;
+	url: string;
+	status: string;
+	conclusion: string | null;
+	createdAt: string | null;
+	name: string | null;
+	headSha: string | null;
+	headBranch: string | null;
+	headRepo?: string | null; // owner/repo the head commit came from (forks)
+	workflowId: number | null;
+}
+
+export interface CiJob {
+	id: number;
+	name: string;
+	html_url: string;
+	conclusion: string | null;
+	status: string | null;
+	steps?: CiStep[]; // Actions only; GitLab jobs are a single script
+}
+
+export interface CiStep {
+	number: number;
+	name: string;
+	status: string; // queued|in_progress|completed
+	conclusion: string | null; // success|failure|skipped|cancelled|null
+	startedAt: string | null;
+	completedAt: string | null;
+}
+
+export interface RunArtifact {
+	id: number;
+	name: string;
+	sizeInBytes: number;
+	expired: boolean;
+}
+
+export interface IssueCommentRest {
+	id: number;
+	body: string;
+	created_at: string;
+	updated_at?: string;
+	html_url: string;
+	user: string;
+}
+
+export interface ReviewCommentRest extends IssueCommentRest {
+	path: string;
+	line?: number;
+	start_line?: number;
+	original_line?: number;
+	side?: string | null;
+	commit_id?: string;
+	in_reply_to_id?: number | null;
+	thread_id?: number | null;
+}
+
+export interface ReviewRest {
+	id: number;
+	body: string;
+	state: string;
+	html_url: string;
+	submitted_at?: string;
+	created_at?: string;
+	updated_at?: string;
+	user: string;
+}
+
+export interface RestComments {
+	issueComments: IssueCommentRest[];
+	reviewComments: ReviewCommentRest[];
+	reviews: ReviewRest[];
+	truncated: boolean;
+}
+
+/** A review thread with resolution state (GitHub GraphQL shape). */
+export interface ReviewThreadGql {
+	id: string;
+	isResolved: boolean;
+	isOutdated: boolean;
+	path: string;
+	line: number | null;
+	startLine: number | null;
+	originalLine: number | null;
+	diffSide: "LEFT" | "RIGHT" | null;
+	resolvedBy: { login: string } | null;
+	comments: {
+		pageInfo?: { hasNextPage: boolean };
+		nodes: {
+			databaseId: number | null;
+			url: string;
+			body: string;
+			createdAt: string;
+			updatedAt: string | null;
+			diffHunk: string | null;
+			author: { login: string } | null;
+			commit: { oid: string } | null;
+			replyTo: { databaseId: number | null } | null;
+		}[];
+	};
 }
 
 // New types for curated run/job extracts
@@ -60,6 +324,7 @@ export interface RunBrief {
 	createdAt: string | null;
 	name: string | null;
 	headSha?: string | null;
+	workflowId?: number | null;
 }
 
 export interface JobBrief {
@@ -69,6 +334,7 @@ export interface JobBrief {
 	html_url: string;
 	conclusion: string | null;
 	status?: string | null;
+	steps?: CiStep[];
 }
 
 export interface ExtractCounts {
@@ -83,12 +349,43 @@ export interface JobExtract {
 	job: JobBrief;
 	excerpt: string; // curated failure lines + optional summary block
 	counts: ExtractCounts;
+	fingerprint?: string; // of the job's failure set (see fingerprint.ts)
+	failedSteps?: string[]; // steps the excerpt was cut down to (see steps.ts)
+	parser?: string; // log parser that produced the excerpt (see parsers.ts)
+	failures?: TestFailure[]; // structured failures that parser found
+}
+
+/** A failed or errored test case from a results artifact or a job log. */
+export interface TestFailure {
+	name: string;
+	classname: string | null;
+	file: string | null;
+	line?: number | null;
+	kind: "failure" | "error";
+	message: string | null;
+	trace: string | null;
+	source: string; // <artifact>/<xml file>, or log:<parser>
+	fingerprint?: string; // test id + message with volatile parts masked
 }
 
 export interface RunExtract {
 	run: RunBrief;
 	jobs: JobExtract[];
 	totalCounts: ExtractCounts;
+	// From results artifacts; when set, counts come from these, not the log scan
+	tests?: TestFailure[];
+	testResultsDir?: string; // where the artifacts' XML was unzipped
+}
+
+// Where a failing test has been seen before, from recent runs of the same workflow
+export type FailureOrigin = "new" | "default_branch" | "intermittent";
+
+export interface TestHistory {
+	test: string;
+	origin: FailureOrigin;
+	label: string; // "new in this PR" | "also failing on main" | "intermittent (N/M recent runs)"
+	failedRuns: number;
+	sampledRuns: number;
 }
 
 export interface GatherFlags {
@@ -111,6 +408,10 @@ export interface BuildReportInput {
 		url: string;
 	}[];
 	runExtracts: RunExtract[];
+	failureHistory?: TestHistory[];
+	externalChecks?: ExternalCheck[]; // failed non-Actions checks for the sha
+	annotations?: Annotation[]; // warnings/failures annotated on failing jobs
+	truncated?: string[]; // lists cut off by caps, shown as a note
 	ghAstGrepForRun: (runId: number) => string;
 	claudeSummary?: string;
 	flags: GatherFlags;
@@ -167,7 +468,10 @@ export interface CommentThread {
 	path?: string | null;
 	comments: CommentItem[];
 	headCommit?: string | null;
-	isResolved?: boolean | null;
+	isResolved?: boolean | null; // null when unknown (REST path)
+	isOutdated?: boolean | null;
+	resolvedBy?: string | null;
+	diffHunk?: string | null;
 }
 
 export interface CommentSnapshot {
@@ -176,6 +480,8 @@ export interface CommentSnapshot {
 	collectedAt: string;
 	totalCount: number;
 	threads: CommentThread[];
+	resolvedHidden?: number; // resolved review threads left out of `threads`
+	truncated?: boolean; // more comments existed than were fetched or kept
 }
 
 export interface BuildCommentReportInput {
@@ -32,6 +32,27 @@ export async function exec(
 
 export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
+/** A sleep that `wake()` cuts short, e.g. when a webhook pokes a poll loop. */
+export function createWaker(): {
+	sleep(ms: number): Promise<void>;
+	wake(): void;
+} {
+	let pending: (() => void) | null = null;
+	return {
+		sleep: (ms) =>
+			new Promise<void>((resolve) => {
+				const timer = setTimeout(done, ms);
+				function done() {
+					clearTimeout(timer);
+					pending = null;
+					resolve();
+				}
+				pending = done;
+			}),
+		wake: () => pending?.(),
+	};
+}
+
 export async function readJsonc<T>(file: string): Promise<T | null> {
 	try {
 		const raw = await fs.readFile(file, "utf8");
@@ -69,12 +90,43 @@ export function sanitizeName(s: string): string {
 		.replace(/[^A-Za-z0-9_.-]/g, "_");
 }
 
-export async function getGhToken(): Promise<string | null> {
-	if (process.env.GITHUB_TOKEN) return process.env.GITHUB_TOKEN;
-	if (process.env.GH_TOKEN) return process.env.GH_TOKEN;
+export async function getGhToken(host = "github.com"): Promise<string | null> {
+	if (host === "github.com") {
+		if (process.env.GITHUB_TOKEN) return process.env.GITHUB_TOKEN;
+		if (process.env.GH_TOKEN) return process.env.GH_TOKEN;
+	} else {
+		// Same variables the gh CLI reads for Enterprise Server hosts
+		if (process.env.GH_ENTERPRISE_TOKEN) return process.env.GH_ENTERPRISE_TOKEN;
+		if (process.env.GITHUB_ENTERPRISE_TOKEN)
+			return process.env.GITHUB_ENTERPRISE_TOKEN;
+	}
 	// Attempt to use gh CLI for local auth
 	try {
-		const { stdout, code } = await exec("gh", ["auth", "token"]);
+		const { stdout, code } = await exec("gh", [
+			"auth",
+			"token",
+			"--hostname",
+			host,
+		]);
+		if (code === 0 && stdout.trim()) return stdout.trim();
+	} catch {}
+	return null;
+}
+
+export async function getGitLabToken(
+	host = "gitlab.com",
+): Promise<string | null> {
+	// Same variables the glab CLI reads
+	if (process.env.GITLAB_TOKEN) return process.env.GITLAB_TOKEN;
+	if (process.env.GITLAB_ACCESS_TOKEN) return process.env.GITLAB_ACCESS_TOKEN;
+	try {
+		const { stdout, code } = await exec("glab", [
+			"config",
+			"get",
+			"token",
+			"--host",
+			host,
+		]);
 		if (code === 0 && stdout.trim()) return stdout.trim();
 	} catch {}
 	return null;
@@ -198,19 +250,30 @@ export function computeDigest(v: unknown): string {
 	return hashString(stableStringify(v));
 }
 
+/**
+ * Retry `fn` when GitHub answers with a secondary rate limit (403/429 with
+ * `retry-after`, or a "secondary rate limit" message), waiting as asked up to
+ * `maxWaitSec`. An exhausted primary quota is rethrown: waiting for its reset
+ * is the poll scheduler's job, not a request's.
+ */
 export async function withRateLimitRetry<T>(
 	fn: () => Promise<T>,
 	retries = 2,
+	maxWaitSec = 60,
 ): Promise<T> {
 	try {
 		return await fn();
 	} catch (e: any) {
-		if (retries <= 0) throw e;
-		const msg = String(e?.message || "");
-		if (msg.toLowerCase().includes("rate") || e?.status === 403) {
-			await new Promise((r) => setTimeout(r, 2000));
-			return withRateLimitRetry(fn, retries - 1);
-		}
-		throw e;
+		if (retries <= 0 || (e?.status !== 403 && e?.status !== 429)) throw e;
+		const headers = e?.response?.headers ?? {};
+		const retryAfter = Number(headers["retry-after"]);
+		const secondary =
+			Number.isFinite(retryAfter) ||
+			/secondary rate limit/i.test(String(e?.message || ""));
+		if (!secondary || headers["x-ratelimit-remaining"] === "0") throw e;
+		const waitSec = Number.isFinite(retryAfter) ? retryAfter : 2;
+		if (waitSec > maxWaitSec) throw e;
+		await sleep(waitSec * 1000);
+		return withRateLimitRetry(fn, retries - 1, maxWaitSec);
 	}
 }
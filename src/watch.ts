@@ -1,17 +1,51 @@
 import * as path from "node:path";
 import { gatherFailures } from "./ci.js";
+import { gatherComments } from "./comments.js";
+import {
+	controlSocketPath,
+	startControlServer,
+	type WatcherStatus,
+} from "./control.js";
+import { createEventLog } from "./events.js";
+import { type FailureDelta, failureDelta } from "./fingerprint.js";
+import {
+	DEFAULT_FLAKE_PATTERNS,
+	matchFlakes,
+	NETWORK_FLAKE_PATTERNS,
+} from "./flaky.js";
+import { ciRepo, createForge, type ForgeProvider } from "./forge.js";
 import {
 	currentBranch,
-	originOwnerRepo,
+	mergeTreeConflicts,
 	remoteHeadSha,
+	repoLayout,
 	repoRoot,
 	repoRootForWorktree,
 } from "./git.js";
-import { Gh } from "./github.js";
+import { analyzeFailureHistory } from "./history.js";
+import { FORGE_NAMES } from "./host.js";
+import { acquireLock } from "./lock.js";
+import { pollDelay } from "./ratelimit.js";
+import { buildCommentReport } from "./report.comments.js";
 import { readState, writeState } from "./state.js";
-import { buildAgentPayload, summarizeFailures } from "./summarize.js";
-import type { Engine, WatchConfig } from "./types.js";
-import { getGhToken, readJsonc, safeRead, sleep } from "./util.js";
+import {
+	buildAgentPayload,
+	buildReviewPayload,
+	summarizeFailures,
+} from "./summarize.js";
+import type {
+	ConflictFile,
+	Engine,
+	FailureBundle,
+	WatchConfig,
+} from "./types.js";
+import {
+	createWaker,
+	hashString,
+	pathExists,
+	readJsonc,
+	safeRead,
+} from "./util.js";
 
 // Dynamic import for multiplexer support
 const MUX = process.env.AWT_MULTIPLEXER || "zellij";
@@ -27,30 +61,74 @@ const {
 	windowNameForWt,
 } = muxModule;
 
-// Currently, watch.ts uses originOwnerRepo/currentBranch/remoteHeadSha. We'll replace with resolveTarget() in M3,
+// Currently, watch.ts uses repoLayout/currentBranch/remoteHeadSha. We'll replace with resolveTarget() in M3,
 // ensuring identical behavior by default and better handling of detached HEAD and remote-less branches.
 
-// New config keys will be read from .awt/config.jsonc (commentsQuietSec, commentsPollSec, consolidatedPastePolicy, commentsCap).
-// State fields last_comment_seen_at_for_sha and last_consolidated_digest_for_sha will be updated accordingly.
-
-// Existing watcher implementation remains unchanged in this milestone.
-
-export async function watch(opts: {
+export interface WatchOptions {
 	worktree: string;
 	engine: Engine;
 	idleSec: number;
 	pollSecIdle: number;
 	pollSecPostPush: number;
 	eventMode: boolean;
-}) {
-	const wt = opts.worktree;
+	/** Take over from an already running watcher of the same worktree. */
+	replace?: boolean;
+}
+
+/**
+ * Repo-level context shared by every worktree watcher in a process.
+ * The supervisor builds one and reuses its forge client for all worktrees.
+ */
+export interface WatchContext {
+	root: string;
+	repoBase: string;
+	cfg: WatchConfig;
+	gh: ForgeProvider;
+	/**
+	 * Start of the current throttled stretch of `gh`, or null. Kept here so
+	 * watchers sharing the client alert once between them, not once each.
+	 */
+	throttle: { since: number | null };
+}
+
+export interface WorktreeWatcher {
+	worktree: string;
+	/** One poll iteration. Never throws; returns the seconds until the next poll is due. */
+	tick(): Promise<number>;
+	/** Event-mode fast path: gather once for a CI head sha and paste if it failed. */
+	handleEventSha(sha: string): Promise<void>;
+	/** Snapshot reported over the control socket (`awt-ci status`). */
+	status(): WatcherStatus;
+	/** A webhook arrived for this worktree: re-check comments on the next tick. */
+	poke(event?: string): void;
+}
+
+export async function loadWatchContext(): Promise<WatchContext> {
 	const root = await repoRoot();
 	const repoBase = path.basename(root);
-	const wtPath = repoRootForWorktree(repoBase, wt);
-
 	// Load config.jsonc if present
 	const cfgPath = path.join(root, ".awt", "config.jsonc");
 	const cfg = (await readJsonc<WatchConfig>(cfgPath)) || {};
+	// ETag cache on disk: restarted watchers revalidate instead of refetching
+	const gh = await createForge(cfg, root, {
+		cacheDir: path.join(root, ".awt", "cache"),
+	});
+	return { root, repoBase, cfg, gh, throttle: { since: null } };
+}
+
+/** Spread polls of many watchers apart so they do not hit GitHub in lockstep. */
+export function jitterSec(baseSec: number): number {
+	return baseSec * (0.9 + Math.random() * 0.2);
+}
+
+export async function createWorktreeWatcher(
+	ctx: WatchContext,
+	opts: Omit<WatchOptions, "eventMode">,
+): Promise<WorktreeWatcher> {
+	const { root, repoBase, cfg, gh } = ctx;
+	const wt = opts.worktree;
+	const wtPath = repoRootForWorktree(repoBase, wt);
+
 	const engine = cfg.engine || opts.engine;
 	const summarizePerJobKB = cfg.summarizePerJobKB ?? 512;
 	const summarizeTotalMB = cfg.summarizeTotalMB ?? 5;
@@ -58,6 +136,12 @@ export async function watch(opts: {
 	const pollFast = cfg.pollSecPostPush ?? opts.pollSecPostPush;
 	const idleSec = cfg.idleSec ?? opts.idleSec;
 	const conflictHints = cfg.conflictHints ?? "simple";
+	const commentsQuietSec = cfg.commentsQuietSec ?? 120;
+	const commentsPollSec = cfg.commentsPollSec ?? 60;
+	const pastePolicy = cfg.consolidatedPastePolicy ?? "on_failure";
+	const commentsCap = cfg.commentsCap ?? 500;
+	const flakyPolicy = cfg.flakyRerun;
+	const rateLimitReserve = cfg.rateLimitReserve ?? 0;
 	const promptPath = cfg.promptPath
 		? path.join(root, cfg.promptPath)
 		: path.join(root, ".awt", "prompts", "debug.md");
@@ -74,21 +158,70 @@ export async function watch(opts: {
 		);
 	}
 
-	const ghToken = await getGhToken();
-	const gh = new Gh(ghToken || undefined);
-	const state = await readState(root);
+	// State lives in the worktree (where the pre-push hook writes it), so
+	// watchers of sibling worktrees never overwrite each other's last push.
+	const stateRoot = (await pathExists(wtPath)) ? wtPath : root;
+	const state = await readState(stateRoot);
+
+	// PRs live in the base repo; the branch is pushed to origin (maybe a fork)
+	const layout = await repoLayout(wtPath, cfg).catch(async () =>
+		repoLayout(root, cfg),
+	);
+	const { owner, repo } = layout.base;
+	const head = layout.head;
+	const ciRef = ciRepo(gh, layout);
 
-	const ownerRepo =
-		cfg.owner && cfg.repo
-			? { owner: cfg.owner, repo: cfg.repo }
-			: await originOwnerRepo(wtPath).catch(async () => originOwnerRepo(root));
-	const { owner, repo } = ownerRepo;
+	// Any recorded error, swallowed or not, shows in `awt-ci status`
+	const log = createEventLog(root, wt, (where, err) => {
+		status.lastError = `${where}: ${String((err as Error)?.message || err)}`;
+		status.lastErrorAt = new Date().toISOString();
+	});
+	log.emit("start", {
+		pid: process.pid,
+		owner,
+		repo,
+		...(layout.fork ? { fork: `${head.owner}/${head.repo}` } : {}),
+		wtPath,
+	});
 
 	let lastSig: string | null = null;
 	let idleStart: number | null = null;
 	let lastNotifiedDormant = false;
 	let postPush = false;
 	let notifiedNoPrForSha: string | null = null;
+	let lastCommentsPoll = 0;
+	const status: WatcherStatus = {
+		worktree: wt,
+		branch: null,
+		prNumber: null,
+		lastCiConclusion: state.last_ci_conclusion ?? null,
+		lastPasteAt: null,
+		lastError: null,
+		lastErrorAt: null,
+	};
+
+	let lastLoggedPr: number | null | undefined;
+	let lastLoggedCi: string | undefined;
+
+	async function paste(
+		kind: "ci_failure" | "rebase" | "review" | "event",
+		text: string,
+		sentinel: string,
+	) {
+		const res = await pasteAndEnter(pane, text, sentinel).catch(
+			log.swallow("pasteAndEnter", "retry" as const),
+		);
+		log.emit("paste", { kind, sentinel, chars: text.length, result: res });
+		if (res === "ok") status.lastPasteAt = new Date().toISOString();
+		return res;
+	}
+
+	async function notify(body: string) {
+		log.emit("notify", { body });
+		await notifyAll(sess, `AWT ${repoBase}/${wt}`, body).catch(
+			log.swallow("notifyAll", undefined),
+		);
+	}
 
 	// Helper to notify once per idle period
 	async function maybeNotifyDormant() {
@@ -98,42 +231,327 @@ export async function watch(opts: {
 			(Date.now() - idleStart) / 1000 >= idleSec &&
 			!lastNotifiedDormant
 		) {
-			await notifyAll(
-				sess,
-				`AWT ${repoBase}/${wt}`,
-				"Agent appears dormant; no push/PR yet.",
-			);
+			await notify("Agent appears dormant; no push/PR yet.");
 			lastNotifiedDormant = true;
 		}
 	}
 
-	// Minimal event-mode fast path: if invoked with CI env, gather once and exit
-	if (opts.eventMode && process.env.GITHUB_HEAD_SHA) {
-		const sha = process.env.GITHUB_HEAD_SHA;
+	/**
+	 * Poll lightweight comment activity and note when it last changed.
+	 * Returns the digest of everything said since the push (null when nothing).
+	 */
+	async function pollCommentActivity(
+		prNumber: number,
+		sha: string,
+		sinceIso: string,
+	): Promise<string | null> {
+		// Oldest first: the cap must be large enough for new activity to show up
+		const { items: comments } = await gh.listCommentsSince(
+			{ owner, repo },
+			prNumber,
+			sinceIso,
+			commentsCap,
+		);
+		if (!comments.length) return null;
+		const digest = hashString(
+			comments.map((c) => `${c.url}\n${c.body}`).join("\n"),
+		);
+		if (state.last_comments_digest_for_sha?.[sha] !== digest) {
+			state.last_comments_digest_for_sha = {
+				...state.last_comments_digest_for_sha,
+				[sha]: digest,
+			};
+			state.last_comment_seen_at_for_sha = {
+				...state.last_comment_seen_at_for_sha,
+				[sha]: new Date().toISOString(),
+			};
+			await writeState(stateRoot, state);
+		}
+		return digest;
+	}
+
+	/**
+	 * Consolidated review threads not pasted yet for this sha, or null.
+	 * `polled` is the activity digest when the caller has just polled it.
+	 */
+	async function consolidatedReview(
+		prNumber: number,
+		sha: string,
+		branch: string,
+		polled?: string,
+	): Promise<{ markdown: string; digest: string; sinceIso: string } | null> {
+		const pushedAt = state.last_push?.pushed_at || new Date(0).toISOString();
+		const digest =
+			polled ?? (await pollCommentActivity(prNumber, sha, pushedAt));
+		if (!digest || state.last_consolidated_digest_for_sha?.[sha] === digest)
+			return null;
+		// Only feedback newer than the previous consolidated paste (full threads keep context)
+		const sinceIso = state.last_consolidated_at_for_sha?.[sha] || pushedAt;
+		const snapshot = await gatherComments({
+			target: {
+				repoRoot: root,
+				worktreePath: wtPath,
+				owner,
+				head,
+				ci: ciRef,
+				repo,
+				localBranch: branch,
+				remoteBranch: branch,
+				headSha: sha,
+				prNumber,
+				sinceIso,
+			},
+			sinceIso,
+			cap: commentsCap,
+			fullThreads: true,
+			preferGraphQL: cfg.preferGraphQL ?? true,
+			gh,
+		});
+		if (!snapshot.totalCount) return null;
+		const report = buildCommentReport({
+			snapshot,
+			meta: { owner, repo, branch, sha },
+		});
+		return { markdown: report.markdown, digest, sinceIso };
+	}
+
+	function markConsolidated(sha: string, digest: string) {
+		state.last_consolidated_digest_for_sha = {
+			...state.last_consolidated_digest_for_sha,
+			[sha]: digest,
+		};
+		state.last_consolidated_at_for_sha = {
+			...state.last_consolidated_at_for_sha,
+			[sha]: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Real conflicts from a local merge-tree dry run; the big-diff heuristic
+	 * is only a fallback when git cannot compute them.
+	 */
+	async function findConflicts(
+		prNumber: number,
+		baseRef: string,
+		headSha: string,
+	): Promise<ConflictFile[]> {
+		const conflicts = await mergeTreeConflicts(
+			wtPath,
+			baseRef,
+			headSha,
+			layout.baseRemote,
+		).catch(log.swallow("mergeTreeConflicts", null));
+		if (conflicts) return conflicts;
+		const files = await gh
+			.prFiles({ owner, repo }, prNumber)
+			.catch(log.swallow("prFiles", { items: [], truncated: false }));
+		return files.items
+			.filter((f) => f.status === "modified" && f.changes > 100)
+			.map((f) => ({ path: f.filename }))
+			.slice(0, 10);
+	}
+
+	/** Paste rebase instructions; true once the agent has them. */
+	async function pasteRebase(
+		prNumber: number,
+		sha: string,
+		base: string,
+		conflicts: ConflictFile[],
+	): Promise<boolean> {
+		const remote = layout.baseRemote;
+		const rebaseSummary =
+			conflictHints === "simple+recent-base"
+				? `Rebase needed (merge conflicts or behind ${base}). Please rebase on ${remote}/${base} and resolve.\n\nAlso inspect recent base changes to these files and nearby code:\n  git fetch ${remote}\n  git log --name-only --since='7 days' ${remote}/${base} | sed -n '1,200p'\n  git log --merges --since='14 days' ${remote}/${base} | sed -n '1,200p'\n`
+				: `Rebase needed (merge conflicts or behind ${base}). Please rebase on ${remote}/${base} and resolve.`;
+		const payload = await buildAgentPayload({
+			prNumber,
+			sha,
+			failureSummary: rebaseSummary,
+			comments: [],
+			debugPrompt: prompt,
+			runs: [],
+			conflictFiles: conflicts,
+			baseRef: base,
+			baseRemote: remote,
+			pushedAtIso: state.last_push?.pushed_at,
+		});
+		const res = await paste("rebase", payload.text, payload.sentinel);
+		if (res !== "ok") return false;
+		await notify(`Posted rebase instructions for PR #${prNumber}.`);
+		return true;
+	}
+
+	/** Paste review feedback on its own once activity has been quiet long enough. */
+	async function maybePasteSettledReview(
+		prNumber: number,
+		sha: string,
+		branch: string,
+	) {
+		// Under "on_failure" the failure paste polls for itself
+		if (pastePolicy !== "always_on_settle") return;
+		if (Date.now() - lastCommentsPoll < commentsPollSec * 1000) return;
+		lastCommentsPoll = Date.now();
+		const pushedAt = state.last_push?.pushed_at || new Date(0).toISOString();
+		const digest = await pollCommentActivity(prNumber, sha, pushedAt);
+		if (!digest || state.last_consolidated_digest_for_sha?.[sha] === digest)
+			return;
+		const seenAt = state.last_comment_seen_at_for_sha?.[sha];
+		const quietSec = seenAt ? (Date.now() - Date.parse(seenAt)) / 1000 : 0;
+		if (quietSec < commentsQuietSec) return;
+		const review = await consolidatedReview(prNumber, sha, branch, digest);
+		if (!review) return;
+		const payload = buildReviewPayload({
+			prNumber,
+			sha,
+			review: review.markdown,
+			digest: review.digest,
+			sinceIso: review.sinceIso,
+		});
+		const res = await paste("review", payload.text, payload.sentinel);
+		if (res === "ok") {
+			markConsolidated(sha, review.digest);
+			await writeState(stateRoot, state);
+			await notify(`Posted settled review feedback for PR #${prNumber}.`);
+		}
+	}
+
+	/**
+	 * True while a flaky re-run for this sha has been requested but has not
+	 * started yet (its runs still show the old attempt). Gives up after 10 min.
+	 */
+	function awaitingRerun(sha: string, runs: { id: number; attempt: number }[]) {
+		const last = state.flaky_reruns_for_sha?.[sha]?.history.at(-1);
+		if (!last || Date.now() - Date.parse(last.at) > 10 * 60 * 1000)
+			return false;
+		return runs.some((r) =>
+			last.runs.some((x) => x.id === r.id && r.attempt <= x.attempt),
+		);
+	}
+
+	/**
+	 * Re-run failed jobs instead of pasting when every failure looks like an
+	 * infra flake and attempts remain. Returns true when a re-run was started.
+	 */
+	async function maybeRerunFlaky(
+		sha: string,
+		prNumber: number,
+		bundle: FailureBundle,
+		runs: { id: number; attempt: number; conclusion: string | null }[],
+	): Promise<boolean> {
+		if (!flakyPolicy) return false;
+		const maxAttempts = flakyPolicy.maxAttempts ?? 1;
+		const rec = state.flaky_reruns_for_sha?.[sha] ?? {
+			attempts: 0,
+			history: [],
+		};
+		if (rec.attempts >= maxAttempts) return false;
+		const patterns = flakyPolicy.patterns?.length
+			? flakyPolicy.patterns
+			: DEFAULT_FLAKE_PATTERNS;
+		const matched = matchFlakes(
+			bundle,
+			flakyPolicy.network ? [...patterns, ...NETWORK_FLAKE_PATTERNS] : patterns,
+		);
+		if (!matched) return false;
+		const failureLike = new Set(["failure", "timed_out", "cancelled"]);
+		const failed = runs.filter(
+			(r) => r.conclusion && failureLike.has(r.conclusion),
+		);
+		for (const r of failed) {
+			await gh.rerunFailedJobs(ciRef, r.id);
+		}
+		rec.attempts += 1;
+		rec.history.push({
+			at: new Date().toISOString(),
+			runs: failed.map((r) => ({ id: r.id, attempt: r.attempt })),
+			matched,
+		});
+		state.flaky_reruns_for_sha = { ...state.flaky_reruns_for_sha, [sha]: rec };
+		await writeState(stateRoot, state);
+		log.emit("rerun", {
+			sha,
+			attempt: rec.attempts,
+			maxAttempts,
+			runIds: failed.map((r) => r.id),
+			matched,
+		});
+		await notify(
+			`Re-running failed jobs for PR #${prNumber} (flake, attempt ${rec.attempts}/${maxAttempts}).`,
+		);
+		postPush = true;
+		return true;
+	}
+
+	/** Label failing tests by where else they fail (see history.ts). */
+	function failureHistory(bundle: FailureBundle, branch: string | null) {
+		return analyzeFailureHistory(gh, ciRef, {
+			branch: branch ?? "",
+			runs: bundle.runs,
+			logs: bundle.logs,
+			maxRuns: cfg.failureHistory?.maxRuns,
+			lookbackDays: cfg.failureHistory?.lookbackDays,
+		}).catch(log.swallow("failureHistory", []));
+	}
+
+	/**
+	 * Compare a failing push's fingerprints with the last failing push's and
+	 * remember them; the caller writes the state.
+	 */
+	function recordFailures(
+		sha: string,
+		bundle: FailureBundle,
+	): FailureDelta | null {
+		const fingerprints = bundle.fingerprints ?? [];
+		if (!fingerprints.length) return null; // no logs to tell failures apart
+		const delta = failureDelta(
+			state.last_failure_fingerprints,
+			sha,
+			fingerprints,
+		);
+		state.last_failure_fingerprints = { sha, fingerprints };
+		return delta;
+	}
+
+	/** Handle a CI event for `sha` between ticks, never during one. */
+	function handleEventSha(sha: string): Promise<void> {
+		return serialized(async () => {
+			// A poller in another process may have written since we loaded
+			Object.assign(state, await readState(stateRoot));
+			await onEventSha(sha);
+		});
+	}
+
+	async function onEventSha(sha: string) {
 		let prNumber: number | null = await gh
 			.findPrBySha({ owner, repo }, sha)
-			.catch(() => null);
+			.catch(log.swallow("findPrBySha", null));
+		const branch = await currentBranch(wtPath).catch(async () =>
+			currentBranch(root),
+		);
 		if (!prNumber) {
-			const branch = await currentBranch(wtPath).catch(async () =>
-				currentBranch(root),
-			);
 			if (branch && branch !== "detached") {
 				prNumber = await gh
-					.findOpenPrForBranch({ owner, repo }, owner, branch)
-					.catch(() => null);
+					.findOpenPrForBranch({ owner, repo }, head, branch)
+					.catch(log.swallow("findOpenPrForBranch", null));
 			}
 		}
 		if (prNumber) {
-			const ci = await gh
-				.latestCiForSha({ owner, repo }, sha)
-				.catch(() => ({ conclusion: null, runs: [] }));
+			const ci = await gh.latestCiForSha(ciRef, sha, { log }).catch(
+				log.swallow("latestCiForSha", {
+					conclusion: null,
+					runs: [],
+					checks: [],
+					truncated: false,
+				}),
+			);
 			const bundle = await gatherFailures(
-				{ owner, repo },
+				ciRef,
 				prNumber,
 				sha,
 				gh,
 				summarizePerJobKB,
 				summarizeTotalMB,
+				{ logFilters: cfg.logFilters, logParsers: cfg.logParsers, log },
 			);
 			if (bundle) {
 				const summary = await summarizeFailures(bundle, engine, {
@@ -142,11 +560,13 @@ export async function watch(opts: {
 				});
 				const sinceIso =
 					state.last_push?.pushed_at ||
-					(await gh.getCommitDate({ owner, repo }, sha)) ||
+					(await gh.getCommitDate(head, sha)) ||
 					new Date(0).toISOString();
-				const comments = await gh
+				const { items: comments } = await gh
 					.listCommentsSince({ owner, repo }, prNumber, sinceIso, 30)
-					.catch(() => []);
+					.catch(
+						log.swallow("listCommentsSince", { items: [], truncated: false }),
+					);
 				const payload = await buildAgentPayload({
 					prNumber,
 					sha,
@@ -159,20 +579,24 @@ export async function watch(opts: {
 					})),
 					summaryEngine: engine,
 					logs: bundle.logs,
+					checks: bundle.checks,
+					annotations: bundle.annotations,
+					truncated: bundle.truncated,
 					pushedAtIso: sinceIso,
+					failureHistory: await failureHistory(bundle, branch),
+					failureDelta: recordFailures(sha, bundle),
 				});
-				await pasteAndEnter(pane, payload.text, payload.sentinel);
-				await notifyAll(
-					sess,
-					`AWT ${repoBase}/${wt}`,
+				await writeState(stateRoot, state);
+				await paste("event", payload.text, payload.sentinel);
+				await notify(
 					`Posted CI failure summary (event-mode) for PR #${prNumber}.`,
 				);
 			}
 		}
-		return;
 	}
 
-	while (true) {
+	async function poll(): Promise<number> {
+		const startedAt = new Date().toISOString();
 		try {
 			// Idle detection via pane signature
 			try {
@@ -184,12 +608,15 @@ export async function watch(opts: {
 				} else if (!postPush) {
 					await maybeNotifyDormant();
 				}
-			} catch {}
+			} catch (e) {
+				log.error("paneHistorySig", e);
+			}
 
 			// Determine branch & remote sha
 			const branch = await currentBranch(wtPath).catch(async () =>
 				currentBranch(root),
 			);
+			status.branch = branch && branch !== "detached" ? branch : null;
 			let remoteSha: string | null = null;
 			if (branch && branch !== "detached") {
 				remoteSha = await remoteHeadSha(wtPath, branch).catch(async () =>
@@ -210,7 +637,8 @@ export async function watch(opts: {
 						pushed_at: new Date().toISOString(),
 					};
 				}
-				await writeState(root, state);
+				await writeState(stateRoot, state);
+				log.emit("push", { sha: remoteSha, branch });
 				postPush = true;
 				notifiedNoPrForSha = null;
 			}
@@ -220,12 +648,17 @@ export async function watch(opts: {
 			if (state.last_push?.sha) {
 				prNumber = await gh
 					.findPrBySha({ owner, repo }, state.last_push.sha)
-					.catch(() => null);
+					.catch(log.swallow("findPrBySha", null));
 			}
 			if (!prNumber && branch && branch !== "detached") {
 				prNumber = await gh
-					.findOpenPrForBranch({ owner, repo }, owner, branch)
-					.catch(() => null);
+					.findOpenPrForBranch({ owner, repo }, head, branch)
+					.catch(log.swallow("findOpenPrForBranch", null));
+			}
+			status.prNumber = prNumber;
+			if (prNumber !== lastLoggedPr) {
+				log.emit("pr", { prNumber, sha: state.last_push?.sha ?? null, branch });
+				lastLoggedPr = prNumber;
 			}
 			if (
 				postPush &&
@@ -233,11 +666,7 @@ export async function watch(opts: {
 				state.last_push?.sha &&
 				notifiedNoPrForSha !== state.last_push.sha
 			) {
-				await notifyAll(
-					sess,
-					`AWT ${repoBase}/${wt}`,
-					"Detected push but no open PR yet.",
-				);
+				await notify("Detected push but no open PR yet.");
 				notifiedNoPrForSha = state.last_push.sha;
 			}
 
@@ -245,58 +674,86 @@ export async function watch(opts: {
 			if (prNumber && state.last_push?.sha) {
 				const prLite = await gh
 					.getPrLite({ owner, repo }, prNumber)
-					.catch(() => null);
+					.catch(log.swallow("getPrLite", null));
 				if (prLite) {
 					if (["dirty", "behind"].includes(prLite.mergeable_state || "")) {
-						const files = await gh
-							.prFiles({ owner, repo }, prNumber)
-							.catch(() => []);
-						const likely = files
-							.filter((f) => f.status === "modified" && f.changes > 100)
-							.map((f) => f.filename)
-							.slice(0, 10);
-						const rebaseSummary =
-							conflictHints === "simple+recent-base"
-								? "Rebase needed (merge conflicts or behind main). Please rebase on main and resolve.\n\nAlso inspect recent base changes to these files and nearby code:\n  git fetch origin\n  git log --name-only --since='7 days' origin/main | sed -n '1,200p'\n  git log --merges --since='14 days' origin/main | sed -n '1,200p'\n"
-								: "Rebase needed (merge conflicts or behind main). Please rebase on main and resolve.";
-						const payload = await buildAgentPayload({
-							prNumber,
-							sha: state.last_push.sha,
-							failureSummary: rebaseSummary,
-							comments: [],
-							debugPrompt: prompt,
-							runs: [],
-							conflictFiles: likely,
-							pushedAtIso: state.last_push.pushed_at,
-						});
-						const res = await pasteAndEnter(
-							pane,
-							payload.text,
-							payload.sentinel,
-						);
-						if (res === "ok")
-							await notifyAll(
-								sess,
-								`AWT ${repoBase}/${wt}`,
-								`Posted rebase instructions for PR #${prNumber}.`,
+						const headSha = state.last_push.sha;
+						const cached = state.last_conflict_check;
+						const fresh =
+							cached?.head_sha === headSha &&
+							cached.base_sha === prLite.baseSha;
+						// Same head and base as last time: nothing new to compute or paste
+						if (!fresh || !cached.pasted) {
+							const conflicts = fresh
+								? cached.conflicts
+								: await findConflicts(prNumber, prLite.baseRef, headSha);
+							const pasted = await pasteRebase(
+								prNumber,
+								headSha,
+								prLite.baseRef,
+								conflicts,
 							);
+							state.last_conflict_check = {
+								head_sha: headSha,
+								base_sha: prLite.baseSha,
+								conflicts,
+								pasted,
+							};
+							await writeState(stateRoot, state);
+						}
 					} else {
 						const ci = await gh
-							.latestCiForSha({ owner, repo }, state.last_push.sha)
-							.catch(() => ({ conclusion: null, runs: [] }));
+							.latestCiForSha(ciRef, state.last_push.sha, { log })
+							.catch(
+								log.swallow("latestCiForSha", {
+									conclusion: null,
+									runs: [],
+									checks: [],
+									truncated: false,
+								}),
+							);
+						const ciKey = `${state.last_push.sha}:${ci.conclusion}`;
+						if (ciKey !== lastLoggedCi) {
+							log.emit("ci", {
+								sha: state.last_push.sha,
+								conclusion: ci.conclusion,
+								runs: ci.runs.map((r) => ({
+									id: r.id,
+									status: r.status,
+									conclusion: r.conclusion,
+								})),
+								checks: ci.checks.map((c) => ({
+									name: c.name,
+									status: c.status,
+									conclusion: c.conclusion,
+								})),
+							});
+							lastLoggedCi = ciKey;
+						}
 						if (
 							ci.conclusion === "failure" &&
-							state.last_ci_seen_for_sha !== state.last_push.sha
+							state.last_ci_seen_for_sha !== state.last_push.sha &&
+							!awaitingRerun(state.last_push.sha, ci.runs)
 						) {
 							const bundle = await gatherFailures(
-								{ owner, repo },
+								ciRef,
 								prNumber,
 								state.last_push.sha,
 								gh,
 								summarizePerJobKB,
 								summarizeTotalMB,
+								{ logFilters: cfg.logFilters, logParsers: cfg.logParsers, log },
 							);
-							if (bundle) {
+							// Flaky infra failure: re-run and wait instead of pasting
+							const rerun =
+								!!bundle &&
+								(await maybeRerunFlaky(
+									state.last_push.sha,
+									prNumber,
+									bundle,
+									ci.runs,
+								).catch(log.swallow("rerunFailedJobs", false)));
+							if (bundle && !rerun) {
 								const summary = await summarizeFailures(bundle, engine, {
 									cwd: wtPath,
 									repo: { owner, repo },
@@ -304,67 +761,185 @@ export async function watch(opts: {
 								let sinceIso = state.last_push?.pushed_at;
 								if (!sinceIso)
 									sinceIso =
-										(await gh.getCommitDate(
-											{ owner, repo },
-											state.last_push.sha,
-										)) || new Date(0).toISOString();
-								const comments = await gh
-									.listCommentsSince({ owner, repo }, prNumber, sinceIso, 30)
-									.catch(() => []);
+										(await gh.getCommitDate(head, state.last_push.sha)) ||
+										new Date(0).toISOString();
+								// Review feedback rides along with the failure unless already pasted
+								const review =
+									branch && branch !== "detached"
+										? await consolidatedReview(
+												prNumber,
+												state.last_push.sha,
+												branch,
+											).catch(log.swallow("consolidatedReview", null))
+										: null;
 								const payload = await buildAgentPayload({
 									prNumber,
 									sha: state.last_push.sha,
 									failureSummary: summary,
-									comments,
+									comments: [],
 									debugPrompt: prompt,
 									runs: ci.runs.map((r) => ({
 										url: r.url,
 										conclusion: r.conclusion || null,
 									})),
 									pushedAtIso: sinceIso,
+									checks: bundle.checks,
+									annotations: bundle.annotations,
+									truncated: bundle.truncated,
+									failureHistory: await failureHistory(bundle, branch),
+									failureDelta: recordFailures(state.last_push.sha, bundle),
+									review: review?.markdown,
 								});
-								const res = await pasteAndEnter(
-									pane,
+								const res = await paste(
+									"ci_failure",
 									payload.text,
 									payload.sentinel,
 								);
+								if (res === "ok" && review)
+									markConsolidated(state.last_push.sha, review.digest);
 								if (res === "ok")
-									await notifyAll(
-										sess,
-										`AWT ${repoBase}/${wt}`,
+									await notify(
 										`Posted CI failure summary for PR #${prNumber}.`,
 									);
 								state.last_ci_seen_for_sha = state.last_push.sha;
 								state.last_ci_conclusion = "failure";
-								await writeState(root, state);
+								status.lastCiConclusion = "failure";
+								await writeState(stateRoot, state);
 							}
 						} else if (
 							ci.conclusion === "success" &&
 							state.last_ci_seen_for_sha !== state.last_push.sha
 						) {
-							await notifyAll(
-								sess,
-								`AWT ${repoBase}/${wt}`,
-								`CI passed for PR #${prNumber}.`,
-							);
+							await notify(`CI passed for PR #${prNumber}.`);
 							state.last_ci_seen_for_sha = state.last_push.sha;
 							state.last_ci_conclusion = "success";
-							await writeState(root, state);
+							status.lastCiConclusion = "success";
+							await writeState(stateRoot, state);
 						}
 					}
 				}
 			}
 
-			// Sleep based on cadence with jitter to avoid synchronization
+			// Review feedback: settle detection and standalone consolidated pastes
+			if (prNumber && state.last_push?.sha && branch && branch !== "detached") {
+				await maybePasteSettledReview(prNumber, state.last_push.sha, branch);
+			}
+
+			// Poll cadence: fast after a push, idle otherwise
 			const baseSec = postPush ? pollFast : pollIdle;
-			const jitterSec = baseSec * (0.9 + Math.random() * 0.2);
-			await sleep(jitterSec * 1000);
 			// After CI seen for this sha, revert to idle cadence
 			if (state.last_ci_seen_for_sha === state.last_push?.sha) postPush = false;
-		} catch (_err) {
+			// Recovered: errors from before this tick are no longer current
+			if (status.lastErrorAt && status.lastErrorAt < startedAt) {
+				status.lastError = null;
+				status.lastErrorAt = null;
+			}
+			return baseSec;
+		} catch (err) {
 			// keep the watcher alive
-			await sleep(2000);
+			log.error("tick", err);
+			return 2;
+		}
+	}
+
+	// Ticks and CI events both read-modify-write `state`; run one at a time
+	let busy: Promise<unknown> = Promise.resolve();
+	function serialized<T>(fn: () => Promise<T>): Promise<T> {
+		const run = busy.then(fn);
+		busy = run.catch(() => {});
+		return run;
+	}
+
+	function tick(): Promise<number> {
+		return serialized(runTick);
+	}
+
+	async function runTick(): Promise<number> {
+		// Out of quota: skip the forge entirely until it resets
+		const skip = pollDelay(0, gh.rateLimit(), rateLimitReserve).paused;
+		const delay = pollDelay(
+			skip ? 0 : await poll(),
+			gh.rateLimit(),
+			rateLimitReserve,
+		);
+		// Alert once per throttled stretch, not on every slowed-down poll
+		const throttle = ctx.throttle;
+		if (delay.throttled && throttle.since === null) {
+			throttle.since = Date.now();
+			const resetAt = gh.rateLimit().resetAt;
+			log.emit("throttle", {
+				reason: delay.throttled,
+				pollSec: delay.sec,
+				resetAt: resetAt ? new Date(resetAt).toISOString() : null,
+			});
+			const forge = FORGE_NAMES[gh.kind];
+			const until = new Date(Date.now() + delay.sec * 1000);
+			await notify(
+				delay.paused
+					? `${forge} ${delay.throttled}; polling paused until ${until.toLocaleTimeString()}.`
+					: `${forge} ${delay.throttled}; polling every ${delay.sec}s.`,
+			);
+		} else if (!delay.throttled && throttle.since !== null) {
+			log.emit("throttle", {
+				resumed: true,
+				throttledSec: Math.round((Date.now() - throttle.since) / 1000),
+			});
+			throttle.since = null;
 		}
+		return delay.sec;
+	}
+
+	return {
+		worktree: wt,
+		tick,
+		handleEventSha,
+		status: () => ({ ...status }),
+		poke: (event) => {
+			log.emit("webhook", { event });
+			lastCommentsPoll = 0;
+		},
+	};
+}
+
+export async function watch(opts: WatchOptions) {
+	const ctx = await loadWatchContext();
+
+	// Minimal event-mode fast path: if invoked with CI env, gather once and exit.
+	// This is a one-shot run next to the poller, so it does not take the lock.
+	if (opts.eventMode && process.env.GITHUB_HEAD_SHA) {
+		const watcher = await createWorktreeWatcher(ctx, opts);
+		await watcher.handleEventSha(process.env.GITHUB_HEAD_SHA);
+		return;
+	}
+
+	// One watcher per worktree: a second one would paste the same failures twice
+	await acquireLock(ctx.root, opts.worktree, { replace: !!opts.replace });
+	const watcher = await createWorktreeWatcher(ctx, opts);
+
+	const waker = createWaker();
+	const startedAt = new Date().toISOString();
+	await startControlServer(controlSocketPath(ctx.root, opts.worktree), {
+		status: () => ({
+			pid: process.pid,
+			startedAt,
+			mode: "single",
+			cwd: process.cwd(),
+			argv: process.argv.slice(1),
+			worktrees: [watcher.status()],
+			ghCache: ctx.gh.cacheStats(),
+			rateLimit: ctx.gh.rateLimit(),
+		}),
+		stop: async () => process.exit(0),
+		poke: (_wt, event) => {
+			watcher.poke(event);
+			waker.wake();
+		},
+	});
+
+	while (true) {
+		const baseSec = await watcher.tick();
+		// Sleep based on cadence with jitter to avoid synchronization
+		await waker.sleep(jitterSec(baseSec) * 1000);
 	}
 }
 
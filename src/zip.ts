@@ -0,0 +1,66 @@
+import { inflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+	name: string;
+	data: Buffer;
+}
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+/**
+ * Minimal reader for the zip archives GitHub serves for artifacts: stored and
+ * deflated entries, no zip64 or encryption. Only entries accepted by `want`
+ * are inflated, each up to `maxEntryBytes`.
+ */
+export function readZip(
+	buf: Buffer,
+	want: (name: string) => boolean = () => true,
+	maxEntryBytes = 50 * 1024 * 1024,
+): ZipEntry[] {
+	// End of central directory: last 22 bytes plus an optional comment
+	let eocd = -1;
+	for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+		if (buf.readUInt32LE(i) === EOCD_SIG) {
+			eocd = i;
+			break;
+		}
+	}
+	if (eocd < 0) throw new Error("not a zip archive");
+	const count = buf.readUInt16LE(eocd + 10);
+	let p = buf.readUInt32LE(eocd + 16);
+
+	const out: ZipEntry[] = [];
+	for (let n = 0; n < count; n++) {
+		if (buf.readUInt32LE(p) !== CENTRAL_SIG)
+			throw new Error("corrupt zip central directory");
+		const method = buf.readUInt16LE(p + 10);
+		const compSize = buf.readUInt32LE(p + 20);
+		const size = buf.readUInt32LE(p + 24);
+		const nameLen = buf.readUInt16LE(p + 28);
+		const extraLen = buf.readUInt16LE(p + 30);
+		const commentLen = buf.readUInt16LE(p + 32);
+		const localOff = buf.readUInt32LE(p + 42);
+		const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+		p += 46 + nameLen + extraLen + commentLen;
+
+		if (name.endsWith("/") || !want(name) || size > maxEntryBytes) continue;
+		if (buf.readUInt32LE(localOff) !== LOCAL_SIG)
+			throw new Error(`corrupt zip entry ${name}`);
+		// Local header lengths can differ from the central directory's
+		const start =
+			localOff +
+			30 +
+			buf.readUInt16LE(localOff + 26) +
+			buf.readUInt16LE(localOff + 28);
+		const raw = buf.subarray(start, start + compSize);
+		if (method === 0) out.push({ name, data: Buffer.from(raw) });
+		else if (method === 8)
+			out.push({
+				name,
+				data: inflateRawSync(raw, { maxOutputLength: Math.max(1, size) }),
+			});
+	}
+	return out;
+}